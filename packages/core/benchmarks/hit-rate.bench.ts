@@ -0,0 +1,130 @@
+import { describe, it, expect } from '@jest/globals';
+import { EvictionPolicyName } from '../src/core/eviction-policy';
+import { LRUCache } from '../src/core/lru-cache';
+
+/**
+ * Hit rates of the built-in eviction policies on synthetic access traces
+ * Run with `pnpm bench`; the traces are seeded, so results are reproducible.
+ */
+
+const POLICIES: EvictionPolicyName[] = ['lru', 'lfu', 'w-tinylfu', 'arc'];
+const KEYS = 10_000;
+const REQUESTS = 200_000;
+const CACHE_SIZE = 1_000;
+
+/**
+ * Small seeded random number generator (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generator of keys whose popularity follows a Zipf distribution
+ */
+function zipf(keys: number, exponent: number, random: () => number): () => number {
+  const cdf = new Float64Array(keys);
+  let total = 0;
+
+  for (let i = 0; i < keys; i++) {
+    total += 1 / (i + 1) ** exponent;
+    cdf[i] = total;
+  }
+
+  return () => {
+    const target = random() * total;
+    let low = 0;
+    let high = keys - 1;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cdf[mid]! < target) low = mid + 1;
+      else high = mid;
+    }
+
+    return low;
+  };
+}
+
+const TRACES: Record<string, () => string[]> = {
+  /** Skewed popularity, the common case for caches in front of a database */
+  zipf: () => {
+    const next = zipf(KEYS, 0.9, seededRandom(1));
+    return Array.from({ length: REQUESTS }, () => `k${next()}`);
+  },
+
+  /** Zipf traffic interrupted by batch jobs that read 5,000 keys once each */
+  'zipf with scans': () => {
+    const next = zipf(KEYS, 0.9, seededRandom(2));
+    const trace: string[] = [];
+
+    for (let i = 0; trace.length < REQUESTS; i++) {
+      if (i > 0 && i % 20_000 === 0) {
+        for (let j = 0; j < 5_000; j++) trace.push(`scan${i}-${j}`);
+      }
+      trace.push(`k${next()}`);
+    }
+
+    return trace;
+  },
+
+  /** A loop slightly larger than the cache, the worst case for LRU */
+  loop: () => Array.from({ length: REQUESTS }, (_, i) => `k${i % (CACHE_SIZE * 1.2)}`),
+
+  /** Uniform traffic over a working set that moves every 20,000 requests */
+  'shifting working set': () => {
+    const random = seededRandom(3);
+    return Array.from({ length: REQUESTS }, (_, i) => {
+      const base = Math.floor(i / 20_000) * 500;
+      return `k${base + Math.floor(random() * 800)}`;
+    });
+  },
+};
+
+function hitRate(policy: EvictionPolicyName, trace: string[]): number {
+  const cache = new LRUCache<string, true>({ maxItems: CACHE_SIZE, evictionPolicy: policy });
+
+  for (const key of trace) {
+    if (cache.get(key) === undefined) cache.set(key, true);
+  }
+
+  const { hits, misses } = cache.stats();
+  return hits / (hits + misses);
+}
+
+describe('eviction policy hit rates', () => {
+  const results: Record<string, Record<EvictionPolicyName, string>> = {};
+
+  for (const [name, generate] of Object.entries(TRACES)) {
+    it(`should measure ${name}`, () => {
+      const trace = generate();
+      const rates = Object.fromEntries(
+        POLICIES.map((policy) => [policy, hitRate(policy, trace)]),
+      ) as Record<EvictionPolicyName, number>;
+
+      results[name] = Object.fromEntries(
+        POLICIES.map((policy) => [policy, `${(rates[policy] * 100).toFixed(1)}%`]),
+      ) as Record<EvictionPolicyName, string>;
+
+      for (const rate of Object.values(rates)) {
+        expect(rate).toBeGreaterThanOrEqual(0);
+        expect(rate).toBeLessThanOrEqual(1);
+      }
+    });
+  }
+
+  it('should report the results', () => {
+    const header = ['trace'.padEnd(22), ...POLICIES.map((policy) => policy.padStart(10))].join('');
+    const rows = Object.entries(results).map(([name, rates]) =>
+      [name.padEnd(22), ...POLICIES.map((policy) => rates[policy].padStart(10))].join(''),
+    );
+
+    process.stdout.write(`\n${[header, ...rows].join('\n')}\n\n`);
+    expect(rows).toHaveLength(Object.keys(TRACES).length);
+  });
+});
@@ -0,0 +1,308 @@
+import { MerkleRange } from '../components/merkle-tree';
+import { mergeClocks, VectorClock, VectorClockJSON } from '../core/vector-clock';
+import { VersionedJSON, VersionedStore } from '../core/versioned-store';
+import { Membership } from './membership';
+import { RpcEndpoint } from './rpc';
+
+/**
+ * Options for configuring AntiEntropy
+ */
+export interface AntiEntropyOptions {
+  /** Interval between synchronisation rounds */
+  intervalMs?: number;
+
+  /** How long to wait for a peer to answer */
+  requestTimeoutMs?: number;
+
+  /** Maximum number of keys transferred in each direction per round */
+  maxKeysPerRound?: number;
+
+  /** Source of randomness used to pick peers */
+  random?: () => number;
+}
+
+/**
+ * Outcome of a synchronisation round with a single peer
+ */
+export interface SyncResult {
+  /** Keys received from the peer */
+  pulled: number;
+
+  /** Keys sent to the peer */
+  pushed: number;
+}
+
+/**
+ * Counters describing the synchronisation rounds run by this node
+ */
+export interface AntiEntropyStats {
+  /** Rounds completed, whether or not anything was transferred */
+  rounds: number;
+
+  /** Rounds that failed, e.g. because the peer was unreachable */
+  failedRounds: number;
+
+  /** Keys received from peers */
+  keysPulled: number;
+
+  /** Keys sent to peers */
+  keysPushed: number;
+
+  /** Epoch milliseconds at which the last round completed, undefined if none has */
+  lastSyncAt: number | undefined;
+}
+
+type Digest = Array<[string, VectorClockJSON]>;
+type VersionBatch<V> = Array<[string, VersionedJSON<V>[]]>;
+
+interface TreeRequest {
+  leaves: number[];
+}
+
+interface TreeResponse {
+  ranges: MerkleRange[];
+}
+
+interface DigestRequest {
+  digest: Digest;
+  ranges: MerkleRange[];
+}
+
+interface DigestResponse<V> {
+  versions: VersionBatch<V>;
+  missing: string[];
+}
+
+interface PushRequest<V> {
+  versions: VersionBatch<V>;
+}
+
+const TREE = 'anti-entropy.tree';
+const DIGEST = 'anti-entropy.digest';
+const PUSH = 'anti-entropy.push';
+
+/**
+ * Periodic push-pull synchronisation of a VersionedStore with random peers
+ * Each round first compares Merkle tree leaves to find the key ranges where the
+ * replicas diverge, then sends a digest of just those ranges, receives the
+ * versions the peer has that we are missing, and pushes back the versions the
+ * peer lacks.
+ * Received versions go through VersionedStore.merge, so the store's conflict
+ * resolver and memory limits apply exactly as for local writes.
+ */
+export class AntiEntropy<V> {
+  private readonly store: VersionedStore<string, V>;
+  private readonly membership: Membership;
+  private readonly rpc: RpcEndpoint;
+  private readonly intervalMs: number;
+  private readonly requestTimeoutMs: number;
+  private readonly maxKeysPerRound: number;
+  private readonly random: () => number;
+  private syncing: boolean = false;
+  private readonly counters: AntiEntropyStats = {
+    rounds: 0,
+    failedRounds: 0,
+    keysPulled: 0,
+    keysPushed: 0,
+    lastSyncAt: undefined,
+  };
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Create a new AntiEntropy process
+   * @param store The local store to synchronise
+   * @param membership Source of peers to synchronise with
+   * @param rpc Endpoint used to exchange digests and versions
+   * @param options Configuration options
+   */
+  constructor(
+    store: VersionedStore<string, V>,
+    membership: Membership,
+    rpc: RpcEndpoint,
+    options: AntiEntropyOptions = {},
+  ) {
+    this.store = store;
+    this.membership = membership;
+    this.rpc = rpc;
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 500;
+    this.maxKeysPerRound = options.maxKeysPerRound ?? 1000;
+    this.random = options.random ?? Math.random;
+
+    if (this.intervalMs <= 0 || this.requestTimeoutMs <= 0) {
+      throw new Error('Anti-entropy timings must be positive numbers');
+    }
+
+    if (this.maxKeysPerRound <= 0) {
+      throw new Error('Maximum keys per round must be a positive number');
+    }
+
+    rpc.register(TREE, (_from, payload) => this.handleTree(payload as TreeRequest));
+    rpc.register(DIGEST, (_from, payload) => this.handleDigest(payload as DigestRequest));
+    rpc.register(PUSH, (_from, payload) => this.handlePush(payload as PushRequest<V>));
+  }
+
+  /**
+   * Start synchronising with a random peer every interval
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runRound(), this.intervalMs);
+  }
+
+  /**
+   * Stop periodic synchronisation
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Get a copy of the synchronisation counters
+   */
+  stats(): AntiEntropyStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Run one push-pull exchange with a peer
+   * @param peer Address of the peer
+   * @returns How many keys were transferred in each direction
+   */
+  async syncWith(peer: string): Promise<SyncResult> {
+    let result: SyncResult;
+
+    try {
+      result = await this.exchange(peer);
+    } catch (error) {
+      this.counters.failedRounds++;
+      throw error;
+    }
+
+    this.counters.rounds++;
+    this.counters.keysPulled += result.pulled;
+    this.counters.keysPushed += result.pushed;
+    this.counters.lastSyncAt = Date.now();
+
+    return result;
+  }
+
+  private async exchange(peer: string): Promise<SyncResult> {
+    // Drop tombstones past their grace period so they are not sent again
+    this.store.purgeExpired();
+
+    const treeRequest: TreeRequest = { leaves: this.store.merkleLeaves() };
+    const { ranges } = await this.rpc.request<TreeResponse>(
+      peer,
+      TREE,
+      treeRequest,
+      this.requestTimeoutMs,
+    );
+
+    if (ranges.length === 0) {
+      return { pulled: 0, pushed: 0 };
+    }
+
+    const request: DigestRequest = { digest: this.digest(ranges), ranges };
+    const response = await this.rpc.request<DigestResponse<V>>(
+      peer,
+      DIGEST,
+      request,
+      this.requestTimeoutMs,
+    );
+
+    this.apply(response.versions);
+
+    const versions = this.collect(response.missing);
+    if (versions.length > 0) {
+      const push: PushRequest<V> = { versions };
+      await this.rpc.request(peer, PUSH, push, this.requestTimeoutMs);
+    }
+
+    return { pulled: response.versions.length, pushed: versions.length };
+  }
+
+  private async runRound(): Promise<void> {
+    if (this.syncing) return;
+
+    const peers = this.membership.getPeers(['alive']);
+    if (peers.length === 0) return;
+
+    this.syncing = true;
+    try {
+      await this.syncWith(peers[Math.floor(this.random() * peers.length)]!);
+    } catch {
+      // Unreachable peers are left to the failure detector; the next round picks another
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private handleTree(request: TreeRequest): TreeResponse {
+    return { ranges: this.store.diffMerkleLeaves(request.leaves) };
+  }
+
+  private handleDigest(request: DigestRequest): DigestResponse<V> {
+    const remote = new Map(
+      request.digest.map(([key, clock]) => [key, VectorClock.fromJSON(clock)]),
+    );
+    const send: string[] = [];
+    const missing: string[] = [];
+
+    for (const key of this.store.keysInRanges(request.ranges)) {
+      const theirs = remote.get(key);
+      if (!theirs || !theirs.descends(this.clockOf(key))) {
+        send.push(key);
+      }
+    }
+
+    for (const [key, theirs] of remote) {
+      if (!this.clockOf(key).descends(theirs)) {
+        missing.push(key);
+      }
+    }
+
+    return {
+      versions: this.collect(send),
+      missing: missing.slice(0, this.maxKeysPerRound),
+    };
+  }
+
+  private handlePush(request: PushRequest<V>): void {
+    this.apply(request.versions);
+  }
+
+  /**
+   * Summarise the local keys in the given ranges by the merged clock of their siblings
+   */
+  private digest(ranges: MerkleRange[]): Digest {
+    return this.store.keysInRanges(ranges).map((key) => [key, this.clockOf(key).toJSON()]);
+  }
+
+  private clockOf(key: string): VectorClock {
+    return mergeClocks(this.store.getVersions(key));
+  }
+
+  private collect(keys: string[]): VersionBatch<V> {
+    const batch: VersionBatch<V> = [];
+
+    for (const key of keys.slice(0, this.maxKeysPerRound)) {
+      const versions = this.store.getVersions(key);
+      if (versions.length > 0) {
+        batch.push([key, versions.map((version) => VersionedStore.serializeVersion(version))]);
+      }
+    }
+
+    return batch;
+  }
+
+  private apply(batch: VersionBatch<V>): void {
+    for (const [key, versions] of batch) {
+      this.store.merge(
+        key,
+        versions.map((json) => VersionedStore.deserializeVersion(json)),
+      );
+    }
+  }
+}
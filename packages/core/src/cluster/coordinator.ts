@@ -0,0 +1,897 @@
+import {
+  CausalContext,
+  Versioned,
+  VersionedJSON,
+  VersionedResult,
+  VersionedStore,
+} from '../core/versioned-store';
+import { PNCounter, PNCounterJSON } from '../crdt/pn-counter';
+import { HashRing } from './hash-ring';
+import { HintedHandoff, HintedHandoffOptions } from './hinted-handoff';
+import { Membership } from './membership';
+import { RpcEndpoint } from './rpc';
+
+/**
+ * Replication settings for a request
+ */
+export interface QuorumOptions {
+  /** Number of replicas to contact, defaults to the ring's replication factor */
+  n?: number;
+
+  /** Replicas that must answer a read */
+  r?: number;
+
+  /** Replicas that must acknowledge a write or delete */
+  w?: number;
+
+  /** How long to wait for each replica */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for configuring a Coordinator
+ */
+export interface CoordinatorOptions extends QuorumOptions {
+  /** Push the reconciled versions back to replicas that answered a read with stale data */
+  readRepair?: boolean;
+
+  /** Limits for writes held for unreachable replicas, or false to disable hinted handoff */
+  hintedHandoff?: HintedHandoffOptions | false;
+
+  /** Membership used to replay hints as soon as a replica is alive again */
+  membership?: Membership;
+}
+
+/**
+ * Options for a coordinated write or delete
+ */
+export interface CoordinatorSetOptions extends QuorumOptions {
+  /** Causal context from a previous get(), omitted for blind writes */
+  context?: CausalContext;
+}
+
+/**
+ * Options for a coordinated batch of writes or deletes
+ */
+export interface CoordinatorSetManyOptions extends QuorumOptions {
+  /** Causal contexts from a previous get() or getMany() by key, keys without one are blind writes */
+  contexts?: Map<string, CausalContext>;
+}
+
+/**
+ * Operation a QuorumError was raised for
+ */
+export type QuorumOperation = 'get' | 'set' | 'delete' | 'increment';
+
+/**
+ * Raised when too few replicas answer a request
+ */
+export class QuorumError extends Error {
+  readonly operation: QuorumOperation;
+  readonly key: string;
+  readonly required: number;
+  readonly acknowledged: number;
+
+  constructor(operation: QuorumOperation, key: string, required: number, acknowledged: number) {
+    super(
+      `Quorum not reached for ${operation} "${key}": ${acknowledged} of ${required} required replicas answered`,
+    );
+    this.name = 'QuorumError';
+    this.operation = operation;
+    this.key = key;
+    this.required = required;
+    this.acknowledged = acknowledged;
+  }
+}
+
+interface KeyRequest {
+  key: string;
+}
+
+interface KeysRequest {
+  keys: string[];
+}
+
+interface ReadResponse<V> {
+  versions: VersionedJSON<V>[];
+}
+
+type VersionBatch<V> = Array<[string, VersionedJSON<V>[]]>;
+
+interface ReadManyResponse<V> {
+  versions: VersionBatch<V>;
+}
+
+interface ReplicaRead<V> {
+  replica: string;
+  versions: Versioned<V>[];
+}
+
+interface ReplicateRequest<V> {
+  key: string;
+  versions: VersionedJSON<V>[];
+}
+
+interface ReplicateManyRequest<V> {
+  versions: VersionBatch<V>;
+}
+
+interface KeyWrite<V> {
+  key: string;
+  value?: V;
+  deleted?: boolean;
+
+  /** Amount to add to a PN-counter, applied by the coordinating replica */
+  delta?: number;
+
+  context?: CausalContext;
+}
+
+interface WriteSettings {
+  n: number;
+  w: number;
+  timeoutMs: number;
+}
+
+interface WriteRequest<V> extends KeyWrite<V>, WriteSettings {}
+
+interface WriteResponse {
+  acknowledged: number;
+}
+
+interface WriteManyRequest<V> extends WriteSettings {
+  writes: KeyWrite<V>[];
+}
+
+interface WriteManyResponse {
+  /** Acknowledgements for each write, in request order */
+  acknowledged: number[];
+}
+
+const GET = 'coordinator.get';
+const GET_MANY = 'coordinator.get-many';
+const REPLICATE = 'coordinator.replicate';
+const REPLICATE_MANY = 'coordinator.replicate-many';
+const FORWARD_WRITE = 'coordinator.forward-write';
+const FORWARD_WRITE_MANY = 'coordinator.forward-write-many';
+
+/**
+ * Request coordinator with tunable N/R/W quorums
+ * Reads and writes are sent to the first N nodes of the key's preference list;
+ * reads wait for R answers and writes for W acknowledgements. Every node runs a
+ * coordinator, which also serves the replica side of these requests.
+ * Writes that a replica fails to acknowledge are kept as hints and replayed
+ * once it is reachable again, and reads push the reconciled versions back to
+ * replicas that answered with stale data.
+ */
+export class Coordinator<V> {
+  private readonly store: VersionedStore<string, V>;
+  /** The local replica seen as holding counters, only used for keys holdsCounter() accepts */
+  private readonly counters: VersionedStore<string, PNCounterJSON>;
+  private readonly ring: HashRing;
+  private readonly rpc: RpcEndpoint;
+  private readonly defaults: Required<QuorumOptions>;
+  private readonly readRepair: boolean;
+
+  /** Writes held for replicas that did not acknowledge them, if hinted handoff is enabled */
+  readonly hints: HintedHandoff<V> | undefined;
+
+  /**
+   * Create a new Coordinator
+   * @param store The local replica
+   * @param ring Ring used to find the replicas for a key
+   * @param rpc Endpoint used to reach other replicas
+   * @param options Default quorum settings and repair options
+   */
+  constructor(
+    store: VersionedStore<string, V>,
+    ring: HashRing,
+    rpc: RpcEndpoint,
+    options: CoordinatorOptions = {},
+  ) {
+    this.store = store;
+    this.counters = store as unknown as VersionedStore<string, PNCounterJSON>;
+    this.ring = ring;
+    this.rpc = rpc;
+    this.readRepair = options.readRepair ?? true;
+    this.defaults = this.resolveOptions(options, {
+      n: ring.replicationFactor,
+      r: Math.min(2, ring.replicationFactor),
+      w: Math.min(2, ring.replicationFactor),
+      timeoutMs: 500,
+    });
+
+    if (options.hintedHandoff !== false) {
+      this.hints = new HintedHandoff<V>(
+        (target, key, versions) => this.replicate(target, key, versions, this.defaults.timeoutMs),
+        options.hintedHandoff,
+      );
+
+      if (options.membership) {
+        this.hints.attach(options.membership);
+      }
+    }
+
+    rpc.register(GET, (_from, payload) => this.handleGet(payload as KeyRequest));
+    rpc.register(GET_MANY, (_from, payload) => this.handleGetMany(payload as KeysRequest));
+    rpc.register(REPLICATE, (_from, payload) =>
+      this.handleReplicate(payload as ReplicateRequest<V>),
+    );
+    rpc.register(REPLICATE_MANY, (_from, payload) =>
+      this.handleReplicateMany(payload as ReplicateManyRequest<V>),
+    );
+    rpc.register(FORWARD_WRITE, (_from, payload) =>
+      this.coordinateWrite(payload as WriteRequest<V>),
+    );
+    rpc.register(FORWARD_WRITE_MANY, (_from, payload) =>
+      this.coordinateWriteMany(payload as WriteManyRequest<V>),
+    );
+  }
+
+  /**
+   * Read a key from R of its replicas
+   * @param key The key to read
+   * @param options Per-call quorum overrides
+   * @returns The reconciled siblings, or undefined if no replica has the key or it was deleted
+   * @throws QuorumError if fewer than R replicas answer
+   */
+  async get(key: string, options: QuorumOptions = {}): Promise<VersionedResult<V> | undefined> {
+    const { n, r, timeoutMs } = this.resolveOptions(options, this.defaults);
+    const replicas = this.ring.getPreferenceList(key, n);
+
+    const responses = await this.quorum(
+      replicas.map((replica) => this.readReplica(replica, key, timeoutMs)),
+      r,
+    );
+
+    if (responses.length < r) {
+      throw new QuorumError('get', key, r, responses.length);
+    }
+
+    const siblings = this.store.reconcile(responses.flatMap((response) => response.versions));
+    if (this.readRepair && siblings.length > 0) {
+      this.repair(key, siblings, responses, timeoutMs);
+    }
+
+    return siblings.some((version) => !version.deleted)
+      ? VersionedStore.toResult(siblings)
+      : undefined;
+  }
+
+  /**
+   * Read several keys from R of their replicas, sending each replica one request for all
+   * of its keys rather than one per key
+   * @param keys The keys to read
+   * @param options Per-call quorum overrides
+   * @returns The reconciled siblings by key, without keys no replica has or that were deleted
+   * @throws QuorumError for the first key fewer than R replicas answered for
+   */
+  async getMany(
+    keys: string[],
+    options: QuorumOptions = {},
+  ): Promise<Map<string, VersionedResult<V>>> {
+    const { n, r, timeoutMs } = this.resolveOptions(options, this.defaults);
+    const unique = [...new Set(keys)];
+    const batches = this.groupByReplica(unique, n);
+
+    const reads = await this.batchQuorum(
+      [...batches].map(([replica, batch]) => this.readReplicaMany(replica, batch, timeoutMs)),
+      unique,
+      r,
+    );
+
+    const results = new Map<string, VersionedResult<V>>();
+
+    for (const key of unique) {
+      const responses = reads.get(key) ?? [];
+      if (responses.length < r) {
+        throw new QuorumError('get', key, r, responses.length);
+      }
+
+      const siblings = this.store.reconcile(responses.flatMap((response) => response.versions));
+      if (this.readRepair && siblings.length > 0) {
+        this.repair(key, siblings, responses, timeoutMs);
+      }
+
+      if (siblings.some((version) => !version.deleted)) {
+        results.set(key, VersionedStore.toResult(siblings));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Check if any of R replicas has a key
+   * @param key The key to check
+   * @param options Per-call quorum overrides
+   * @throws QuorumError if fewer than R replicas answer
+   */
+  async has(key: string, options: QuorumOptions = {}): Promise<boolean> {
+    return (await this.get(key, options)) !== undefined;
+  }
+
+  /**
+   * Write a key to its replicas and wait for W acknowledgements
+   * @param key The key to write
+   * @param value The value to store
+   * @param options Causal context and per-call quorum overrides
+   * @throws QuorumError if fewer than W replicas acknowledge
+   */
+  async set(key: string, value: V, options: CoordinatorSetOptions = {}): Promise<void> {
+    await this.write('set', key, { value }, options);
+  }
+
+  /**
+   * Delete a key by writing a tombstone to its replicas and waiting for W acknowledgements
+   * Without a causal context the key is read from R replicas first, so the
+   * tombstone supersedes every version they hold
+   * @param key The key to delete
+   * @param options Causal context and per-call quorum overrides
+   * @returns True if a value was deleted, false if the key was not found
+   * @throws QuorumError if fewer than R replicas answer or W replicas acknowledge
+   */
+  async delete(key: string, options: CoordinatorSetOptions = {}): Promise<boolean> {
+    const context = options.context ?? (await this.get(key, options))?.context;
+
+    if (context === undefined) {
+      return false;
+    }
+
+    await this.write('delete', key, { deleted: true }, { ...options, context });
+    return true;
+  }
+
+  /**
+   * Write a key only if it has not changed since the causal context was read
+   * The key is read from R replicas and only written if its context still matches.
+   * This is not linearizable: coordinators racing on the same key can both see a
+   * match, but their writes are then concurrent and kept as siblings, so neither is
+   * silently lost.
+   * @param key The key to write
+   * @param expected Context from get(), or undefined to write only if no replica has the key
+   * @param value The value to store
+   * @param options Per-call quorum overrides
+   * @returns True if the value was written, false if the key had changed
+   * @throws QuorumError if fewer than R replicas answer or W replicas acknowledge
+   */
+  async compareAndSet(
+    key: string,
+    expected: CausalContext | undefined,
+    value: V,
+    options: QuorumOptions = {},
+  ): Promise<boolean> {
+    const current = await this.get(key, options);
+    const matches =
+      expected === undefined || current === undefined
+        ? expected === undefined && current === undefined
+        : VersionedStore.decodeContext(expected).compare(
+            VersionedStore.decodeContext(current.context),
+          ) === 'equal';
+
+    if (!matches) {
+      return false;
+    }
+
+    await this.write('set', key, { value }, { ...options, context: expected });
+    return true;
+  }
+
+  /**
+   * Add to a PN-counter stored under a key
+   * The delta is applied by a replica of the key in that replica's own slot of the
+   * counter, so concurrent increments through different coordinators all survive.
+   * Read the counter with get() and PNCounter.mergeAll(result.values).value.
+   * @param key The key of the counter, created at 0 if absent
+   * @param delta The amount to add, negative to subtract
+   * @param options Per-call quorum overrides
+   * @throws QuorumError if fewer than W replicas acknowledge
+   */
+  async increment(
+    this: Coordinator<PNCounterJSON>,
+    key: string,
+    delta: number = 1,
+    options: QuorumOptions = {},
+  ): Promise<void> {
+    if (!Number.isFinite(delta)) {
+      throw new Error('Delta must be a finite number');
+    }
+
+    await this.write('increment', key, { delta }, options);
+  }
+
+  /**
+   * Write several keys to their replicas and wait for W acknowledgements of each
+   * Keys are batched per replica, so each replica receives one message for the whole call
+   * @param entries The key-value pairs to write; a repeated key keeps its last value
+   * @param options Causal contexts and per-call quorum overrides
+   * @throws QuorumError for the first key fewer than W replicas acknowledged
+   */
+  async setMany(
+    entries: Iterable<readonly [string, V]>,
+    options: CoordinatorSetManyOptions = {},
+  ): Promise<void> {
+    const writes = [...new Map(entries)].map(([key, value]) => ({
+      key,
+      value,
+      context: options.contexts?.get(key),
+    }));
+
+    await this.writeMany('set', writes, options);
+  }
+
+  /**
+   * Delete several keys by writing tombstones to their replicas
+   * Keys without a causal context are first read with getMany(), and only those found
+   * are deleted
+   * @param keys The keys to delete
+   * @param options Causal contexts and per-call quorum overrides
+   * @returns The number of keys whose value was deleted
+   * @throws QuorumError if fewer than R replicas answer or W replicas acknowledge for a key
+   */
+  async deleteMany(keys: string[], options: CoordinatorSetManyOptions = {}): Promise<number> {
+    const unique = [...new Set(keys)];
+    const unknown = unique.filter((key) => !options.contexts?.has(key));
+    const found = unknown.length > 0 ? await this.getMany(unknown, options) : new Map();
+
+    const writes = unique.flatMap((key) => {
+      const context = options.contexts?.get(key) ?? found.get(key)?.context;
+      return context === undefined ? [] : [{ key, deleted: true, context }];
+    });
+
+    await this.writeMany('delete', writes, options);
+    return writes.length;
+  }
+
+  /**
+   * Coordinate a write, or forward it to a replica if this node is not one,
+   * since only replicas can issue vector clock entries for the key
+   */
+  private async write(
+    operation: QuorumOperation,
+    key: string,
+    write: Pick<WriteRequest<V>, 'value' | 'deleted' | 'delta'>,
+    options: CoordinatorSetOptions,
+  ): Promise<void> {
+    const { n, w, timeoutMs } = this.resolveOptions(options, this.defaults);
+    const request: WriteRequest<V> = { key, ...write, context: options.context, n, w, timeoutMs };
+
+    const acknowledged = this.ring.getPreferenceList(key, n).includes(this.rpc.address)
+      ? (await this.coordinateWrite(request)).acknowledged
+      : await this.forwardWrite(request);
+
+    if (acknowledged < w) {
+      throw new QuorumError(operation, key, w, acknowledged);
+    }
+  }
+
+  /**
+   * Coordinate the writes this node is a replica for, and forward the others in one
+   * batch per replica
+   */
+  private async writeMany(
+    operation: QuorumOperation,
+    writes: KeyWrite<V>[],
+    options: QuorumOptions,
+  ): Promise<void> {
+    const settings = this.resolveOptions(options, this.defaults);
+    const local: KeyWrite<V>[] = [];
+    const forwarded = new Map<string, KeyWrite<V>[]>();
+    const acknowledged = new Map<string, number>();
+
+    for (const write of writes) {
+      const replicas = this.ring.getPreferenceList(write.key, settings.n);
+
+      if (replicas.includes(this.rpc.address)) {
+        local.push(write);
+      } else if (replicas[0] !== undefined) {
+        const batch = forwarded.get(replicas[0]) ?? [];
+        batch.push(write);
+        forwarded.set(replicas[0], batch);
+      }
+    }
+
+    const record = (batch: KeyWrite<V>[], response: WriteManyResponse) =>
+      batch.forEach((write, i) => acknowledged.set(write.key, response.acknowledged[i] ?? 0));
+
+    await Promise.all([
+      local.length > 0
+        ? this.coordinateWriteMany({ writes: local, ...settings }).then((response) =>
+            record(local, response),
+          )
+        : undefined,
+      ...[...forwarded].map(async ([replica, batch]) => {
+        try {
+          const response = await this.rpc.request<WriteManyResponse>(
+            replica,
+            FORWARD_WRITE_MANY,
+            { writes: batch, ...settings },
+            settings.timeoutMs * 2,
+          );
+          record(batch, response);
+        } catch {
+          // Forward each write on its own, so the other replicas of its key are tried
+          for (const write of batch) {
+            acknowledged.set(write.key, await this.forwardWrite({ ...write, ...settings }));
+          }
+        }
+      }),
+    ]);
+
+    for (const { key } of writes) {
+      const count = acknowledged.get(key) ?? 0;
+      if (count < settings.w) {
+        throw new QuorumError(operation, key, settings.w, count);
+      }
+    }
+  }
+
+  /**
+   * Forward a write to the first of the key's replicas that accepts it
+   * @returns The number of replicas that acknowledged, 0 if none could be reached
+   */
+  private async forwardWrite(request: WriteRequest<V>): Promise<number> {
+    for (const replica of this.ring.getPreferenceList(request.key, request.n)) {
+      try {
+        const response = await this.rpc.request<WriteResponse>(
+          replica,
+          FORWARD_WRITE,
+          request,
+          request.timeoutMs * 2,
+        );
+        return response.acknowledged;
+      } catch {
+        // Try the next replica in preference order
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Write locally, then replicate to the rest of the preference list
+   * @returns The number of replicas that acknowledged, including this one
+   */
+  private async coordinateWrite(request: WriteRequest<V>): Promise<WriteResponse> {
+    const { key, n, w, timeoutMs } = request;
+    const versions = this.applyWrite(request);
+
+    const others = this.ring
+      .getPreferenceList(key, n)
+      .filter((replica) => replica !== this.rpc.address)
+      .map((replica) => this.replicateOrHint(replica, key, versions, timeoutMs));
+
+    const responses = await this.quorum(others, w - 1);
+    return { acknowledged: responses.length + 1 };
+  }
+
+  /**
+   * Write a batch locally, then replicate it with one message per other replica
+   * @returns The number of replicas that acknowledged each write, including this one
+   */
+  private async coordinateWriteMany(request: WriteManyRequest<V>): Promise<WriteManyResponse> {
+    const { writes, n, w, timeoutMs } = request;
+    const batches = new Map<string, Array<[string, Versioned<V>[]]>>();
+
+    for (const write of writes) {
+      const versions = this.applyWrite(write);
+
+      for (const replica of this.ring.getPreferenceList(write.key, n)) {
+        if (replica === this.rpc.address) continue;
+
+        const batch = batches.get(replica) ?? [];
+        batch.push([write.key, versions]);
+        batches.set(replica, batch);
+      }
+    }
+
+    const responses = await this.batchQuorum(
+      [...batches].map(([replica, batch]) => this.replicateManyOrHint(replica, batch, timeoutMs)),
+      writes.map((write) => write.key),
+      w - 1,
+    );
+
+    return {
+      acknowledged: writes.map((write) => (responses.get(write.key)?.length ?? 0) + 1),
+    };
+  }
+
+  /**
+   * Apply a write to the local replica
+   * @returns The versions to replicate
+   */
+  private applyWrite(write: KeyWrite<V>): Versioned<V>[] {
+    if (write.delta !== undefined) {
+      if (!this.holdsCounter(write.key)) {
+        throw new Error(`Key ${write.key} does not hold a counter`);
+      }
+
+      this.counters.increment(write.key, write.delta);
+      return this.store.getVersions(write.key);
+    }
+
+    if (write.deleted) {
+      // Replicate the tombstone along with any concurrent siblings it did not replace
+      this.store.delete(write.key, write.context);
+      return this.store.getVersions(write.key);
+    }
+
+    return [this.store.put(write.key, write.value as V, write.context)];
+  }
+
+  /**
+   * Check that the local replica holds a PN-counter under a key, or nothing yet,
+   * so an increment sent by another coordinator can be applied to it
+   */
+  private holdsCounter(key: string): boolean {
+    return this.store
+      .getVersions(key)
+      .every((version) => version.deleted || isCounter(version.value));
+  }
+
+  /**
+   * Push the reconciled siblings to every replica that answered without them
+   */
+  private repair(
+    key: string,
+    siblings: Versioned<V>[],
+    responses: ReplicaRead<V>[],
+    timeoutMs: number,
+  ): void {
+    for (const { replica, versions } of responses) {
+      const stale = siblings.some(
+        (sibling) => !versions.some((version) => version.clock.descends(sibling.clock)),
+      );
+      if (!stale) continue;
+
+      if (replica === this.rpc.address) {
+        this.store.merge(key, siblings);
+      } else {
+        this.replicateOrHint(replica, key, siblings, timeoutMs).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Send versions to a replica, keeping them as a hint if it does not acknowledge
+   */
+  private async replicateOrHint(
+    replica: string,
+    key: string,
+    versions: Versioned<V>[],
+    timeoutMs: number,
+  ): Promise<void> {
+    try {
+      await this.replicate(replica, key, versions, timeoutMs);
+    } catch (error) {
+      this.hints?.add(replica, key, versions);
+      throw error;
+    }
+  }
+
+  /**
+   * Send the versions of several keys to a replica in one message, keeping each key as a
+   * hint if it does not acknowledge
+   * @returns The keys acknowledged, mapped to the replica
+   */
+  private async replicateManyOrHint(
+    replica: string,
+    batch: Array<[string, Versioned<V>[]]>,
+    timeoutMs: number,
+  ): Promise<Map<string, string>> {
+    const request: ReplicateManyRequest<V> = {
+      versions: batch.map(([key, versions]) => [
+        key,
+        versions.map((version) => VersionedStore.serializeVersion(version)),
+      ]),
+    };
+
+    try {
+      await this.rpc.request(replica, REPLICATE_MANY, request, timeoutMs);
+    } catch (error) {
+      for (const [key, versions] of batch) {
+        this.hints?.add(replica, key, versions);
+      }
+      throw error;
+    }
+
+    return new Map(batch.map(([key]) => [key, replica]));
+  }
+
+  private async replicate(
+    replica: string,
+    key: string,
+    versions: Versioned<V>[],
+    timeoutMs: number,
+  ): Promise<void> {
+    const request: ReplicateRequest<V> = {
+      key,
+      versions: versions.map((version) => VersionedStore.serializeVersion(version)),
+    };
+    await this.rpc.request(replica, REPLICATE, request, timeoutMs);
+  }
+
+  private async readReplica(
+    replica: string,
+    key: string,
+    timeoutMs: number,
+  ): Promise<ReplicaRead<V>> {
+    const response =
+      replica === this.rpc.address
+        ? this.handleGet({ key })
+        : await this.rpc.request<ReadResponse<V>>(replica, GET, { key }, timeoutMs);
+
+    return {
+      replica,
+      versions: response.versions.map((json) => VersionedStore.deserializeVersion(json)),
+    };
+  }
+
+  private async readReplicaMany(
+    replica: string,
+    keys: string[],
+    timeoutMs: number,
+  ): Promise<Map<string, ReplicaRead<V>>> {
+    const response =
+      replica === this.rpc.address
+        ? this.handleGetMany({ keys })
+        : await this.rpc.request<ReadManyResponse<V>>(replica, GET_MANY, { keys }, timeoutMs);
+
+    return new Map(
+      response.versions.map(([key, versions]) => [
+        key,
+        { replica, versions: versions.map((json) => VersionedStore.deserializeVersion(json)) },
+      ]),
+    );
+  }
+
+  private handleGet(request: KeyRequest): ReadResponse<V> {
+    // get() marks the key as recently used, getVersions() also returns tombstones
+    this.store.get(request.key);
+    const versions = this.store.getVersions(request.key);
+    return { versions: versions.map((version) => VersionedStore.serializeVersion(version)) };
+  }
+
+  private handleGetMany(request: KeysRequest): ReadManyResponse<V> {
+    return { versions: request.keys.map((key) => [key, this.handleGet({ key }).versions]) };
+  }
+
+  private handleReplicate(request: ReplicateRequest<V>): void {
+    this.store.merge(
+      request.key,
+      request.versions.map((json) => VersionedStore.deserializeVersion(json)),
+    );
+  }
+
+  private handleReplicateMany(request: ReplicateManyRequest<V>): void {
+    for (const [key, versions] of request.versions) {
+      this.handleReplicate({ key, versions });
+    }
+  }
+
+  /**
+   * Group keys by the replicas in their preference lists
+   * @returns The keys each replica holds
+   */
+  private groupByReplica(keys: string[], n: number): Map<string, string[]> {
+    const batches = new Map<string, string[]>();
+
+    for (const key of keys) {
+      for (const replica of this.ring.getPreferenceList(key, n)) {
+        const batch = batches.get(replica) ?? [];
+        batch.push(key);
+        batches.set(replica, batch);
+      }
+    }
+
+    return batches;
+  }
+
+  /**
+   * Wait until the required number of attempts succeed or all of them settle
+   * Attempts still running after the quorum is reached keep going in the background
+   * @returns The successful results, fewer than required if the quorum failed
+   */
+  private quorum<T>(attempts: Promise<T>[], required: number): Promise<T[]> {
+    const results: T[] = [];
+    let settled = 0;
+
+    return new Promise((resolve) => {
+      const check = () => {
+        if (results.length >= required || settled === attempts.length) {
+          resolve([...results]);
+        }
+      };
+
+      check();
+      for (const attempt of attempts) {
+        attempt
+          .then((result) => results.push(result))
+          .catch(() => undefined)
+          .finally(() => {
+            settled++;
+            check();
+          });
+      }
+    });
+  }
+
+  /**
+   * Wait until every key has the required number of successful attempts or all of them settle
+   * Each attempt covers several keys, like a batch sent to one replica, and resolves to
+   * a result for each key it succeeded for
+   * @returns The successful results by key, fewer than required for keys whose quorum failed
+   */
+  private batchQuorum<T>(
+    attempts: Promise<Map<string, T>>[],
+    keys: string[],
+    required: number,
+  ): Promise<Map<string, T[]>> {
+    const results = new Map<string, T[]>(keys.map((key) => [key, []]));
+    let settled = 0;
+
+    return new Promise((resolve) => {
+      const check = () => {
+        const reached = [...results.values()].every((result) => result.length >= required);
+
+        if (reached || settled === attempts.length) {
+          resolve(new Map([...results].map(([key, result]) => [key, [...result]])));
+        }
+      };
+
+      check();
+      for (const attempt of attempts) {
+        attempt
+          .then((batch) => {
+            for (const [key, result] of batch) results.get(key)?.push(result);
+          })
+          .catch(() => undefined)
+          .finally(() => {
+            settled++;
+            check();
+          });
+      }
+    });
+  }
+
+  private resolveOptions(
+    options: QuorumOptions,
+    defaults: Required<QuorumOptions>,
+  ): Required<QuorumOptions> {
+    const n = options.n ?? defaults.n;
+    const resolved = {
+      n,
+      // Default quorums shrink with N, so overriding only N does not need R and W too
+      r: options.r ?? Math.min(defaults.r, n),
+      w: options.w ?? Math.min(defaults.w, n),
+      timeoutMs: options.timeoutMs ?? defaults.timeoutMs,
+    };
+
+    if (!Number.isInteger(resolved.n) || resolved.n <= 0) {
+      throw new Error('N must be a positive integer');
+    }
+
+    if (!Number.isInteger(resolved.r) || resolved.r <= 0 || resolved.r > resolved.n) {
+      throw new Error('R must be a positive integer no greater than N');
+    }
+
+    if (!Number.isInteger(resolved.w) || resolved.w <= 0 || resolved.w > resolved.n) {
+      throw new Error('W must be a positive integer no greater than N');
+    }
+
+    if (resolved.timeoutMs <= 0) {
+      throw new Error('Timeout must be a positive number');
+    }
+
+    return resolved;
+  }
+}
+
+function isCounter(value: unknown): boolean {
+  try {
+    PNCounter.fromJSON(value as PNCounterJSON);
+    return true;
+  } catch {
+    return false;
+  }
+}
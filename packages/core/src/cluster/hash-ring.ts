@@ -0,0 +1,185 @@
+import { hashString } from '../components/hash';
+import { Membership } from './membership';
+
+/**
+ * Options for configuring the HashRing
+ */
+export interface HashRingOptions {
+  /** Number of points each node occupies on the ring */
+  virtualNodes?: number;
+
+  /** Number of distinct nodes that hold a copy of each key */
+  replicationFactor?: number;
+}
+
+interface RingPoint {
+  hash: number;
+  nodeId: string;
+}
+
+/**
+ * Consistent hashing ring with virtual nodes
+ * Keys are owned by the first replicationFactor distinct nodes found walking
+ * clockwise from the key's hash, so adding or removing a node only moves the
+ * keys adjacent to its points.
+ */
+export class HashRing {
+  readonly virtualNodes: number;
+  readonly replicationFactor: number;
+  private readonly members = new Set<string>();
+  private points: RingPoint[] = [];
+
+  /**
+   * Create a new HashRing with the specified options
+   * @param options Configuration options
+   */
+  constructor(options: HashRingOptions = {}) {
+    this.virtualNodes = options.virtualNodes ?? 128;
+    this.replicationFactor = options.replicationFactor ?? 3;
+
+    if (!Number.isInteger(this.virtualNodes) || this.virtualNodes <= 0) {
+      throw new Error('Virtual nodes must be a positive integer');
+    }
+
+    if (!Number.isInteger(this.replicationFactor) || this.replicationFactor <= 0) {
+      throw new Error('Replication factor must be a positive integer');
+    }
+  }
+
+  /**
+   * Get the ids of all nodes on the ring
+   */
+  get nodes(): string[] {
+    return [...this.members];
+  }
+
+  /**
+   * Check if a node is on the ring
+   * @param nodeId The node to check
+   */
+  has(nodeId: string): boolean {
+    return this.members.has(nodeId);
+  }
+
+  /**
+   * Place a node on the ring
+   * @param nodeId The node to add
+   * @returns True if the node was added, false if it was already present
+   */
+  addNode(nodeId: string): boolean {
+    if (this.members.has(nodeId)) return false;
+
+    this.members.add(nodeId);
+    for (let i = 0; i < this.virtualNodes; i++) {
+      this.points.push({ hash: hashString(`${nodeId}#${i}`), nodeId });
+    }
+
+    // Ties are broken by node id so every node builds the same ring
+    this.points.sort((a, b) => a.hash - b.hash || (a.nodeId < b.nodeId ? -1 : 1));
+    return true;
+  }
+
+  /**
+   * Remove a node from the ring
+   * @param nodeId The node to remove
+   * @returns True if the node was removed, false if it was not present
+   */
+  removeNode(nodeId: string): boolean {
+    if (!this.members.delete(nodeId)) return false;
+
+    this.points = this.points.filter((point) => point.nodeId !== nodeId);
+    return true;
+  }
+
+  /**
+   * Get the nodes responsible for a key, in preference order
+   * @param key The key to place
+   * @param count How many distinct nodes to return, defaults to the replication factor
+   */
+  getPreferenceList(key: string, count: number = this.replicationFactor): string[] {
+    const wanted = Math.min(count, this.members.size);
+    const result: string[] = [];
+
+    if (wanted <= 0) return result;
+
+    const start = this.findPoint(hashString(key));
+    for (let i = 0; result.length < wanted; i++) {
+      const { nodeId } = this.points[(start + i) % this.points.length]!;
+      if (!result.includes(nodeId)) result.push(nodeId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the first node responsible for a key
+   * @param key The key to place
+   */
+  getPrimary(key: string): string | undefined {
+    return this.getPreferenceList(key, 1)[0];
+  }
+
+  /**
+   * Check if a node is one of the replicas for a key
+   * @param nodeId The node to check
+   * @param key The key to place
+   */
+  owns(nodeId: string, key: string): boolean {
+    return this.getPreferenceList(key).includes(nodeId);
+  }
+
+  /**
+   * Find the keys held by a node that it is no longer a replica for,
+   * e.g. after a rebalance, so they can be handed off and dropped
+   * @param nodeId The node holding the keys
+   * @param keys The node's keys, e.g. VersionedStore.keys()
+   */
+  unownedKeys(nodeId: string, keys: Iterable<string>): string[] {
+    const result: string[] = [];
+
+    for (const key of keys) {
+      if (!this.owns(nodeId, key)) result.push(key);
+    }
+
+    return result;
+  }
+
+  /**
+   * Keep the ring in step with cluster membership
+   * Alive and suspect members stay on the ring, dead members are removed
+   * @param membership The membership to follow
+   * @returns A function that stops following membership changes
+   */
+  attach(membership: Membership): () => void {
+    for (const member of membership.getMembers()) {
+      if (member.status !== 'dead') this.addNode(member.id);
+    }
+
+    const unsubscribe = [
+      membership.on('alive', (member) => this.addNode(member.id)),
+      membership.on('suspect', (member) => this.addNode(member.id)),
+      membership.on('dead', (member) => this.removeNode(member.id)),
+    ];
+
+    return () => unsubscribe.forEach((off) => off());
+  }
+
+  /**
+   * Binary search for the first point at or after a hash, wrapping around the ring
+   */
+  private findPoint(hash: number): number {
+    let low = 0;
+    let high = this.points.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.points[mid]!.hash < hash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low % this.points.length;
+  }
+}
@@ -0,0 +1,211 @@
+import { LRUCache } from '../core/lru-cache';
+import { VectorClock } from '../core/vector-clock';
+import { Versioned, VersionedJSON, VersionedStore } from '../core/versioned-store';
+import { Membership } from './membership';
+
+/**
+ * Writes held for a replica that could not be reached
+ */
+export interface Hint<V> {
+  target: string;
+  key: string;
+  versions: VersionedJSON<V>[];
+}
+
+/**
+ * Function that hands a hint's versions to the target replica
+ */
+export type HintDelivery<V> = (
+  target: string,
+  key: string,
+  versions: Versioned<V>[],
+) => Promise<void>;
+
+/**
+ * Options for configuring HintedHandoff
+ */
+export interface HintedHandoffOptions {
+  /** Maximum number of hints kept, the least recently written are dropped first */
+  maxHints?: number;
+
+  /** Maximum memory used by hints in bytes */
+  maxMemoryBytes?: number;
+
+  /** Discard hints that could not be delivered within this time, three hours by default */
+  hintTtlMs?: number;
+
+  /** Interval between attempts to deliver every pending hint once start() is called */
+  replayIntervalMs?: number;
+}
+
+/**
+ * Bounded store of writes destined for unreachable replicas
+ * Hints live in an LRUCache, so once the limits are reached or a hint outlives
+ * its TTL it is dropped and left for anti-entropy to repair. Hints are replayed
+ * when membership reports their target alive and, once started, periodically, so
+ * replicas that missed a write without ever being marked down still receive it.
+ */
+export class HintedHandoff<V> {
+  private readonly deliver: HintDelivery<V>;
+  private readonly hints: LRUCache<string, Hint<V>>;
+  private readonly replayIntervalMs: number;
+  private readonly replaying = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Create a new HintedHandoff
+   * @param deliver Function sending hinted versions to their target
+   * @param options Configuration options
+   */
+  constructor(deliver: HintDelivery<V>, options: HintedHandoffOptions = {}) {
+    this.deliver = deliver;
+    this.replayIntervalMs = options.replayIntervalMs ?? 10_000;
+
+    if (this.replayIntervalMs <= 0) {
+      throw new Error('Hint replay interval must be a positive number');
+    }
+
+    this.hints = new LRUCache<string, Hint<V>>({
+      maxItems: options.maxHints ?? 10_000,
+      maxMemoryBytes: options.maxMemoryBytes,
+      defaultTtlMs: options.hintTtlMs ?? 3 * 60 * 60 * 1000,
+    });
+  }
+
+  /**
+   * Get the number of pending hints
+   */
+  get size(): number {
+    return this.hints.size;
+  }
+
+  /**
+   * Get the memory used by pending hints in bytes
+   */
+  get memoryUsage(): number {
+    return this.hints.memoryUsage;
+  }
+
+  /**
+   * Hold versions for a replica until it is reachable again
+   * @param target The replica that missed the write
+   * @param key The key that was written
+   * @param versions The versions the replica should receive
+   */
+  add(target: string, key: string, versions: Versioned<V>[]): void {
+    const id = HintedHandoff.hintId(target, key);
+
+    // Keep only earlier hinted versions that the new ones do not supersede
+    const existing = (this.hints.peek(id)?.versions ?? []).filter((json) => {
+      const clock = VectorClock.fromJSON(json.clock);
+      return !versions.some((version) => version.clock.descends(clock));
+    });
+
+    this.hints.set(id, {
+      target,
+      key,
+      versions: [
+        ...existing,
+        ...versions.map((version) => VersionedStore.serializeVersion(version)),
+      ],
+    });
+  }
+
+  /**
+   * Count the hints pending for a replica
+   * @param target The replica to check
+   */
+  pendingFor(target: string): number {
+    return this.idsFor(target).length;
+  }
+
+  /**
+   * Deliver all pending hints for a replica
+   * Stops at the first failure, keeping the remaining hints for a later attempt
+   * @param target The replica to deliver to
+   * @returns The number of hints delivered
+   */
+  async replay(target: string): Promise<number> {
+    if (this.replaying.has(target)) return 0;
+    this.replaying.add(target);
+
+    let delivered = 0;
+    try {
+      for (const id of this.idsFor(target)) {
+        const hint = this.hints.peek(id);
+        if (!hint) continue;
+
+        try {
+          await this.deliver(
+            target,
+            hint.key,
+            hint.versions.map((json) => VersionedStore.deserializeVersion(json)),
+          );
+        } catch {
+          break;
+        }
+
+        // Only drop the hint if no newer versions were added while delivering
+        if (this.hints.peek(id) === hint) {
+          this.hints.delete(id);
+        }
+        delivered++;
+      }
+    } finally {
+      this.replaying.delete(target);
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Deliver the pending hints of every replica
+   * @returns The number of hints delivered
+   */
+  async replayAll(): Promise<number> {
+    const targets = new Set([...this.hints.values()].map((hint) => hint.target));
+    const delivered = await Promise.all([...targets].map((target) => this.replay(target)));
+    return delivered.reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Start replaying every pending hint each interval
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.replayAll(), this.replayIntervalMs);
+  }
+
+  /**
+   * Stop periodic replay
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Replay hints for a replica whenever membership reports it alive
+   * @param membership The membership to follow
+   * @returns A function that stops following membership changes
+   */
+  attach(membership: Membership): () => void {
+    return membership.on('alive', (member) => void this.replay(member.id));
+  }
+
+  /**
+   * Drop every pending hint
+   */
+  clear(): void {
+    this.hints.clear();
+  }
+
+  private idsFor(target: string): string[] {
+    const prefix = HintedHandoff.hintId(target, '');
+    return [...this.hints.keys()].filter((id) => id.startsWith(prefix));
+  }
+
+  private static hintId(target: string, key: string): string {
+    return `${target}\u0000${key}`;
+  }
+}
@@ -0,0 +1,165 @@
+import { MessageHandler, Transport } from './transport';
+
+/**
+ * Options for configuring the InMemoryNetwork
+ */
+export interface InMemoryNetworkOptions {
+  /** Delay in milliseconds before a message is delivered */
+  latencyMs?: number;
+}
+
+/**
+ * In-process network connecting InMemoryTransports
+ * Delivery is scheduled with timers, so clusters can be driven deterministically
+ * with fake timers in tests
+ */
+export class InMemoryNetwork {
+  private readonly latencyMs: number;
+  private readonly endpoints = new Map<string, InMemoryTransport>();
+  private readonly isolated = new Set<string>();
+  private readonly blockedLinks = new Set<string>();
+
+  /**
+   * Create a new InMemoryNetwork with the specified options
+   * @param options Configuration options
+   */
+  constructor(options: InMemoryNetworkOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 1;
+
+    if (this.latencyMs < 0) {
+      throw new Error('Latency must not be negative');
+    }
+  }
+
+  /**
+   * Create a transport attached to this network
+   * @param address Unique address of the transport
+   */
+  createTransport(address: string): InMemoryTransport {
+    if (this.endpoints.has(address)) {
+      throw new Error(`Address "${address}" is already in use`);
+    }
+
+    const transport = new InMemoryTransport(address, this);
+    this.endpoints.set(address, transport);
+    return transport;
+  }
+
+  /**
+   * Drop all traffic to and from a node
+   * @param address The node to isolate
+   */
+  disconnect(address: string): void {
+    this.isolated.add(address);
+  }
+
+  /**
+   * Restore traffic to and from a previously isolated node
+   * @param address The node to reconnect
+   */
+  reconnect(address: string): void {
+    this.isolated.delete(address);
+  }
+
+  /**
+   * Drop all traffic between two groups of nodes
+   * @param left Addresses on one side of the partition
+   * @param right Addresses on the other side
+   */
+  partition(left: string[], right: string[]): void {
+    for (const a of left) {
+      for (const b of right) {
+        this.blockedLinks.add(InMemoryNetwork.link(a, b));
+        this.blockedLinks.add(InMemoryNetwork.link(b, a));
+      }
+    }
+  }
+
+  /**
+   * Remove all partitions and isolated nodes
+   */
+  heal(): void {
+    this.isolated.clear();
+    this.blockedLinks.clear();
+  }
+
+  /**
+   * Schedule delivery of a message
+   * @internal
+   */
+  deliver(from: string, to: string, message: unknown): void {
+    if (!this.canReach(from, to)) return;
+
+    // Copy the message as a real network would, so neither side sees the other's changes
+    const copy = structuredClone(message);
+
+    setTimeout(() => {
+      // Re-check on arrival so partitions created in flight also drop messages
+      if (!this.canReach(from, to)) return;
+      this.endpoints.get(to)?.receive(from, copy);
+    }, this.latencyMs);
+  }
+
+  /**
+   * Detach a closed transport
+   * @internal
+   */
+  detach(address: string): void {
+    this.endpoints.delete(address);
+  }
+
+  private canReach(from: string, to: string): boolean {
+    return (
+      !this.isolated.has(from) &&
+      !this.isolated.has(to) &&
+      !this.blockedLinks.has(InMemoryNetwork.link(from, to))
+    );
+  }
+
+  private static link(from: string, to: string): string {
+    return `${from}\u0000${to}`;
+  }
+}
+
+/**
+ * Transport delivering messages through an InMemoryNetwork
+ */
+export class InMemoryTransport implements Transport {
+  readonly address: string;
+  private readonly network: InMemoryNetwork;
+  private readonly handlers = new Set<MessageHandler>();
+  private closed = false;
+
+  constructor(address: string, network: InMemoryNetwork) {
+    this.address = address;
+    this.network = network;
+  }
+
+  send(to: string, message: unknown): void {
+    if (this.closed) return;
+    this.network.deliver(this.address, to, message);
+  }
+
+  onMessage(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.handlers.clear();
+    this.network.detach(this.address);
+  }
+
+  /**
+   * Hand a delivered message to the registered handlers
+   * @internal
+   */
+  receive(from: string, message: unknown): void {
+    if (this.closed) return;
+
+    for (const handler of this.handlers) {
+      handler(from, message);
+    }
+  }
+}
@@ -0,0 +1,492 @@
+import { RpcEndpoint } from './rpc';
+
+/**
+ * Health of a cluster member as seen by the local node
+ */
+export type MemberStatus = 'alive' | 'suspect' | 'dead';
+
+/**
+ * A cluster member and the incarnation its status applies to
+ * Incarnations are bumped by the member itself to refute suspicion
+ */
+export interface Member {
+  id: string;
+  status: MemberStatus;
+  incarnation: number;
+}
+
+/**
+ * Listener signatures for events emitted by Membership
+ */
+export interface MembershipEvents {
+  /** Fired when a member joins or recovers */
+  alive: (member: Member) => void;
+
+  /** Fired when a member stops answering pings */
+  suspect: (member: Member) => void;
+
+  /** Fired when a suspected member does not refute in time */
+  dead: (member: Member) => void;
+}
+
+/**
+ * Counters describing the failure detection rounds run by this node
+ */
+export interface MembershipStats {
+  /** Protocol rounds in which a member was probed */
+  probes: number;
+
+  /** Probes where neither the member nor any helper got an answer */
+  failedProbes: number;
+}
+
+/**
+ * Options for configuring Membership
+ */
+export interface MembershipOptions {
+  /** Addresses contacted when joining the cluster */
+  seeds?: string[];
+
+  /** Interval between failure detection rounds */
+  protocolPeriodMs?: number;
+
+  /** How long to wait for a direct or relayed ping */
+  pingTimeoutMs?: number;
+
+  /** Number of members asked to ping a target that missed a direct ping */
+  indirectPingCount?: number;
+
+  /** How long a member stays suspect before it is declared dead */
+  suspicionTimeoutMs?: number;
+
+  /** Maximum number of membership updates piggybacked on a single message */
+  maxPiggybackUpdates?: number;
+
+  /** Scales how many times each update is retransmitted, relative to log10 of the cluster size */
+  retransmitMultiplier?: number;
+
+  /** Source of randomness used to pick probe targets */
+  random?: () => number;
+}
+
+interface Piggyback {
+  updates: Member[];
+}
+
+interface PingRequest extends Piggyback {
+  target: string;
+}
+
+interface QueuedUpdate {
+  member: Member;
+  transmissions: number;
+}
+
+const PING = 'swim.ping';
+const PING_REQ = 'swim.ping-req';
+const JOIN = 'swim.join';
+
+/**
+ * SWIM-style membership and failure detection
+ * Each protocol period the node pings one member, falls back to indirect pings
+ * through other members, and marks unresponsive members suspect and then dead.
+ * Membership changes are piggybacked on protocol messages.
+ */
+export class Membership {
+  private readonly rpc: RpcEndpoint;
+  private readonly seeds: string[];
+  private readonly protocolPeriodMs: number;
+  private readonly pingTimeoutMs: number;
+  private readonly indirectPingCount: number;
+  private readonly suspicionTimeoutMs: number;
+  private readonly maxPiggybackUpdates: number;
+  private readonly retransmitMultiplier: number;
+  private readonly random: () => number;
+  private readonly members = new Map<string, Member>();
+  private readonly updates = new Map<string, QueuedUpdate>();
+  private readonly suspicionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly listeners: {
+    [E in keyof MembershipEvents]: Set<MembershipEvents[E]>;
+  } = { alive: new Set(), suspect: new Set(), dead: new Set() };
+  private incarnation: number = 0;
+  private probeOrder: string[] = [];
+  private probeIndex: number = 0;
+  private probing: boolean = false;
+  private readonly counters: MembershipStats = { probes: 0, failedProbes: 0 };
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Create a new Membership
+   * @param rpc Endpoint used to exchange protocol messages
+   * @param options Configuration options
+   */
+  constructor(rpc: RpcEndpoint, options: MembershipOptions = {}) {
+    this.rpc = rpc;
+    this.seeds = options.seeds ?? [];
+    this.protocolPeriodMs = options.protocolPeriodMs ?? 1000;
+    this.pingTimeoutMs = options.pingTimeoutMs ?? 200;
+    this.indirectPingCount = options.indirectPingCount ?? 3;
+    this.suspicionTimeoutMs = options.suspicionTimeoutMs ?? 5000;
+    this.maxPiggybackUpdates = options.maxPiggybackUpdates ?? 8;
+    this.retransmitMultiplier = options.retransmitMultiplier ?? 3;
+    this.random = options.random ?? Math.random;
+
+    if (this.protocolPeriodMs <= 0 || this.pingTimeoutMs <= 0 || this.suspicionTimeoutMs <= 0) {
+      throw new Error('Protocol timings must be positive numbers');
+    }
+
+    if (this.pingTimeoutMs * 3 > this.protocolPeriodMs) {
+      throw new Error('Protocol period must allow for a direct and an indirect ping');
+    }
+
+    rpc.register(PING, (from, payload) => this.handlePing(from, payload as Piggyback));
+    rpc.register(PING_REQ, (from, payload) => this.handlePingRequest(from, payload as PingRequest));
+    rpc.register(JOIN, (from, payload) => this.handleJoin(from, payload as Piggyback));
+  }
+
+  /**
+   * Get the id of the local node
+   */
+  get localId(): string {
+    return this.rpc.address;
+  }
+
+  /**
+   * Subscribe to a membership event
+   * @param event The event name
+   * @param listener The listener to invoke
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof MembershipEvents>(event: E, listener: MembershipEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a membership event
+   * @param event The event name
+   * @param listener The listener previously passed to on()
+   */
+  off<E extends keyof MembershipEvents>(event: E, listener: MembershipEvents[E]): void {
+    this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Get a copy of the failure detection counters
+   */
+  stats(): MembershipStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Join the cluster through the seed nodes and start failure detection
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.enqueue(this.self());
+    this.timer = setInterval(() => void this.probe(), this.protocolPeriodMs);
+
+    await Promise.all(
+      this.seeds
+        .filter((seed) => seed !== this.localId)
+        .map(async (seed) => {
+          try {
+            const response = await this.rpc.request<Piggyback>(
+              seed,
+              JOIN,
+              { updates: [this.self()] },
+              this.pingTimeoutMs,
+            );
+            this.receive(seed, response.updates);
+          } catch {
+            // Unreachable seeds are retried implicitly once other members gossip about them
+          }
+        }),
+    );
+  }
+
+  /**
+   * Stop failure detection
+   * Call close() on the RpcEndpoint separately to stop answering peers
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    for (const timer of this.suspicionTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.suspicionTimers.clear();
+  }
+
+  /**
+   * Get a member by id
+   * @param id The member id
+   */
+  getMember(id: string): Member | undefined {
+    if (id === this.localId) return this.self();
+
+    const member = this.members.get(id);
+    return member && { ...member };
+  }
+
+  /**
+   * Get every known member, including the local node
+   */
+  getMembers(): Member[] {
+    return [this.self(), ...[...this.members.values()].map((member) => ({ ...member }))];
+  }
+
+  /**
+   * Get the ids of remote members
+   * @param statuses Only include members with one of these statuses
+   */
+  getPeers(statuses: MemberStatus[] = ['alive', 'suspect']): string[] {
+    return [...this.members.values()]
+      .filter((member) => statuses.includes(member.status))
+      .map((member) => member.id);
+  }
+
+  private self(): Member {
+    return { id: this.localId, status: 'alive', incarnation: this.incarnation };
+  }
+
+  private emit<E extends keyof MembershipEvents>(event: E, member: Member): void {
+    for (const listener of this.listeners[event]) {
+      listener({ ...member });
+    }
+  }
+
+  /**
+   * Run one round of failure detection against the next member
+   */
+  private async probe(): Promise<void> {
+    if (this.probing) return;
+    this.probing = true;
+
+    try {
+      const target = this.nextProbeTarget();
+      if (!target) return;
+
+      this.counters.probes++;
+      if (await this.ping(target)) return;
+
+      // Dead members are still probed so they can rejoin after a partition heals
+      if (this.members.get(target)?.status === 'dead') {
+        this.counters.failedProbes++;
+        return;
+      }
+
+      if (await this.pingIndirectly(target)) return;
+
+      this.counters.failedProbes++;
+
+      const member = this.members.get(target);
+      if (member?.status === 'alive') {
+        this.apply({ ...member, status: 'suspect' });
+      }
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /**
+   * Pick probe targets in a randomised round-robin order
+   */
+  private nextProbeTarget(): string | undefined {
+    while (this.probeIndex < this.probeOrder.length) {
+      const candidate = this.probeOrder[this.probeIndex++]!;
+      if (this.members.has(candidate)) return candidate;
+    }
+
+    this.probeOrder = this.shuffle([...this.members.keys()]);
+    this.probeIndex = 0;
+    return this.probeOrder[this.probeIndex++];
+  }
+
+  private async ping(target: string): Promise<boolean> {
+    try {
+      const response = await this.rpc.request<Piggyback>(
+        target,
+        PING,
+        { updates: this.piggyback(target) },
+        this.pingTimeoutMs,
+      );
+      this.receive(target, response.updates);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async pingIndirectly(target: string): Promise<boolean> {
+    const helpers = this.shuffle(this.getPeers(['alive']).filter((id) => id !== target)).slice(
+      0,
+      this.indirectPingCount,
+    );
+
+    const results = await Promise.all(
+      helpers.map(async (helper) => {
+        try {
+          const response = await this.rpc.request<Piggyback>(
+            helper,
+            PING_REQ,
+            { target, updates: this.piggyback(helper) },
+            this.pingTimeoutMs * 2,
+          );
+          this.receive(helper, response.updates);
+          return true;
+        } catch {
+          return false;
+        }
+      }),
+    );
+
+    return results.includes(true);
+  }
+
+  private handlePing(from: string, request: Piggyback): Piggyback {
+    this.receive(from, request.updates);
+    return { updates: this.piggyback(from) };
+  }
+
+  private async handlePingRequest(from: string, request: PingRequest): Promise<Piggyback> {
+    this.receive(from, request.updates);
+
+    if (!(await this.ping(request.target))) {
+      throw new Error(`No acknowledgement from "${request.target}"`);
+    }
+
+    return { updates: this.piggyback(from) };
+  }
+
+  private handleJoin(from: string, request: Piggyback): Piggyback {
+    this.receive(from, request.updates);
+    return { updates: this.getMembers() };
+  }
+
+  /**
+   * Process the updates carried by a message from a peer
+   */
+  private receive(from: string, updates: Member[]): void {
+    // Hearing from an unknown node is proof that it is alive
+    if (!this.members.has(from)) {
+      this.apply({ id: from, status: 'alive', incarnation: 0 });
+    }
+
+    for (const update of updates) {
+      this.apply(update);
+    }
+  }
+
+  /**
+   * Apply a membership update if it supersedes what we know
+   */
+  private apply(update: Member): void {
+    if (update.id === this.localId) {
+      // Refute rumours about our own failure with a newer incarnation. A rumour older
+      // than our incarnation is refuted too, as its holder may have missed the refutation.
+      if (update.status !== 'alive') {
+        this.incarnation = Math.max(this.incarnation, update.incarnation + 1);
+        this.enqueue(this.self());
+      }
+      return;
+    }
+
+    const current = this.members.get(update.id);
+    if (current && !Membership.supersedes(update, current)) return;
+
+    const member = { ...update };
+    this.members.set(member.id, member);
+    this.enqueue(member);
+
+    if (member.status === 'suspect') {
+      this.startSuspicion(member);
+    } else {
+      clearTimeout(this.suspicionTimers.get(member.id));
+      this.suspicionTimers.delete(member.id);
+    }
+
+    if (current?.status !== member.status && (current || member.status !== 'dead')) {
+      this.emit(member.status, member);
+    }
+  }
+
+  private startSuspicion(member: Member): void {
+    clearTimeout(this.suspicionTimers.get(member.id));
+
+    this.suspicionTimers.set(
+      member.id,
+      setTimeout(() => {
+        this.suspicionTimers.delete(member.id);
+
+        const current = this.members.get(member.id);
+        if (current?.status === 'suspect' && current.incarnation === member.incarnation) {
+          this.apply({ ...current, status: 'dead' });
+        }
+      }, this.suspicionTimeoutMs),
+    );
+  }
+
+  /**
+   * Queue an update for dissemination, replacing older news about the same member
+   */
+  private enqueue(member: Member): void {
+    this.updates.set(member.id, { member: { ...member }, transmissions: 0 });
+  }
+
+  /**
+   * Select the least disseminated updates to attach to an outgoing message
+   * @param recipient The node receiving the message
+   */
+  private piggyback(recipient: string): Member[] {
+    const limit = Math.max(
+      1,
+      Math.ceil(this.retransmitMultiplier * Math.log10(this.members.size + 2)),
+    );
+    const selected = [...this.updates.values()]
+      .sort((a, b) => a.transmissions - b.transmissions)
+      .slice(0, this.maxPiggybackUpdates);
+
+    for (const queued of selected) {
+      if (++queued.transmissions >= limit) {
+        this.updates.delete(queued.member.id);
+      }
+    }
+
+    const updates = selected.map((queued) => queued.member);
+
+    // Always tell a member when we believe it has failed so it can refute
+    const recipientState = this.members.get(recipient);
+    if (recipientState && recipientState.status !== 'alive') {
+      updates.push({ ...recipientState });
+    }
+
+    return updates;
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [items[i], items[j]] = [items[j]!, items[i]!];
+    }
+    return items;
+  }
+
+  /**
+   * SWIM precedence rules for conflicting updates about the same member
+   */
+  private static supersedes(update: Member, current: Member): boolean {
+    switch (update.status) {
+      case 'alive':
+        return update.incarnation > current.incarnation;
+      case 'suspect':
+        return current.status === 'alive'
+          ? update.incarnation >= current.incarnation
+          : update.incarnation > current.incarnation;
+      case 'dead':
+        return current.status !== 'dead' && update.incarnation >= current.incarnation;
+    }
+  }
+}
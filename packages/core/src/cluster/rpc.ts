@@ -0,0 +1,182 @@
+import { Transport } from './transport';
+
+/**
+ * Handler serving requests for a single RPC method
+ */
+export type RpcHandler = (from: string, payload: unknown) => unknown;
+
+/**
+ * Raised when a peer does not answer a request in time
+ */
+export class RpcTimeoutError extends Error {
+  constructor(to: string, method: string, timeoutMs: number) {
+    super(`Request "${method}" to "${to}" timed out after ${timeoutMs}ms`);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+/**
+ * Raised when a peer's handler fails or the method is unknown
+ */
+export class RpcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+interface RpcRequest {
+  kind: 'rpc-request';
+  id: number;
+  method: string;
+  payload: unknown;
+}
+
+interface RpcResponse {
+  kind: 'rpc-response';
+  id: number;
+  payload?: unknown;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (payload: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Request/response layer on top of a Transport
+ * Several subsystems can share one endpoint by registering different methods
+ */
+export class RpcEndpoint {
+  private readonly transport: Transport;
+  private readonly handlers = new Map<string, RpcHandler>();
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly unsubscribe: () => void;
+  private nextId: number = 0;
+
+  /**
+   * Create a new RpcEndpoint
+   * @param transport The transport to send requests over
+   */
+  constructor(transport: Transport) {
+    this.transport = transport;
+    this.unsubscribe = transport.onMessage((from, message) => this.handleMessage(from, message));
+  }
+
+  /**
+   * Get the address of the local node
+   */
+  get address(): string {
+    return this.transport.address;
+  }
+
+  /**
+   * Register the handler for a method
+   * @param method The method name
+   * @param handler Function returning the response, or a promise of it
+   */
+  register(method: string, handler: RpcHandler): void {
+    if (this.handlers.has(method)) {
+      throw new Error(`Handler for "${method}" is already registered`);
+    }
+
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Remove the handler for a method
+   * @param method The method name
+   */
+  unregister(method: string): void {
+    this.handlers.delete(method);
+  }
+
+  /**
+   * Send a request and wait for the response
+   * @param to Address of the peer
+   * @param method The method to invoke
+   * @param payload The request payload
+   * @param timeoutMs How long to wait for a response
+   * @returns The response payload
+   */
+  request<T = unknown>(
+    to: string,
+    method: string,
+    payload: unknown,
+    timeoutMs: number,
+  ): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new RpcTimeoutError(to, method, timeoutMs));
+      }, timeoutMs);
+
+      this.pending.set(id, { resolve: resolve as (payload: unknown) => void, reject, timer });
+
+      const request: RpcRequest = { kind: 'rpc-request', id, method, payload };
+      this.transport.send(to, request);
+    });
+  }
+
+  /**
+   * Reject all outstanding requests and stop handling messages
+   */
+  close(): void {
+    this.unsubscribe();
+
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new RpcError('Endpoint closed'));
+      this.pending.delete(id);
+    }
+  }
+
+  private handleMessage(from: string, message: unknown): void {
+    if (!isRpcMessage(message)) return;
+
+    if (message.kind === 'rpc-request') {
+      void this.handleRequest(from, message);
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+
+    if (message.error !== undefined) {
+      pending.reject(new RpcError(message.error));
+    } else {
+      pending.resolve(message.payload);
+    }
+  }
+
+  private async handleRequest(from: string, request: RpcRequest): Promise<void> {
+    const handler = this.handlers.get(request.method);
+    const response: RpcResponse = { kind: 'rpc-response', id: request.id };
+
+    if (!handler) {
+      response.error = `Unknown method "${request.method}"`;
+    } else {
+      try {
+        response.payload = await handler(from, request.payload);
+      } catch (error) {
+        response.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    this.transport.send(from, response);
+  }
+}
+
+function isRpcMessage(message: unknown): message is RpcRequest | RpcResponse {
+  if (typeof message !== 'object' || message === null) return false;
+
+  const { kind } = message as { kind?: unknown };
+  return kind === 'rpc-request' || kind === 'rpc-response';
+}
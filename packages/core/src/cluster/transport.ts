@@ -0,0 +1,32 @@
+/**
+ * Handler invoked for every message delivered to a transport
+ */
+export type MessageHandler = (from: string, message: unknown) => void;
+
+/**
+ * Minimal message-passing abstraction the cluster subsystems run over
+ * Messages must be plain JSON-compatible data
+ */
+export interface Transport {
+  /** Address other nodes use to reach this transport, doubles as the node id */
+  readonly address: string;
+
+  /**
+   * Send a message to another node, without any delivery guarantee
+   * @param to Address of the recipient
+   * @param message The message payload
+   */
+  send(to: string, message: unknown): void;
+
+  /**
+   * Register a handler for incoming messages
+   * @param handler The handler to invoke
+   * @returns A function that removes the handler
+   */
+  onMessage(handler: MessageHandler): () => void;
+
+  /**
+   * Stop sending and receiving messages
+   */
+  close(): void;
+}
@@ -0,0 +1,125 @@
+const DEPTH = 4;
+const MAX_COUNT = 15;
+const SEEDS = [0x97cb3127, 0x64a0c1fb, 0x2f4d9a43, 0xb1e5a7c9];
+
+/**
+ * Approximate frequency counter using a fixed amount of memory
+ * Estimates never undercount but may overcount when hashes collide. Counters
+ * saturate at 15 and are periodically halved, so old popularity fades and
+ * recent frequency dominates.
+ */
+export class CountMinSketch {
+  private table: Uint8Array;
+  private mask: number;
+  private sampleSize: number;
+  private readonly sampleRatio: number;
+  private additions: number = 0;
+
+  /**
+   * Create a new CountMinSketch
+   * @param width Counters per row, rounded up to a power of two; about the number of
+   * distinct items to track
+   * @param sampleRatio Counts are halved after recording this many times the width
+   */
+  constructor(width: number, sampleRatio: number = 10) {
+    if (!Number.isFinite(width) || width <= 0) {
+      throw new Error('Sketch width must be a positive number');
+    }
+
+    if (!Number.isFinite(sampleRatio) || sampleRatio <= 0) {
+      throw new Error('Sample ratio must be a positive number');
+    }
+
+    const size = 2 ** Math.ceil(Math.log2(Math.max(width, 16)));
+    this.table = new Uint8Array(size * DEPTH);
+    this.mask = size - 1;
+    this.sampleRatio = sampleRatio;
+    this.sampleSize = size * sampleRatio;
+  }
+
+  /**
+   * Get the number of counters per row
+   */
+  get width(): number {
+    return this.mask + 1;
+  }
+
+  /**
+   * Record one occurrence of an item
+   * @param hash 32-bit hash of the item
+   */
+  increment(hash: number): void {
+    let added = false;
+
+    for (let row = 0; row < DEPTH; row++) {
+      const index = this.indexOf(hash, row);
+      if (this.table[index]! < MAX_COUNT) {
+        this.table[index]!++;
+        added = true;
+      }
+    }
+
+    if (added && ++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  /**
+   * Estimate how often an item has been recorded recently
+   * @param hash 32-bit hash of the item
+   */
+  estimate(hash: number): number {
+    let min = MAX_COUNT;
+
+    for (let row = 0; row < DEPTH; row++) {
+      min = Math.min(min, this.table[this.indexOf(hash, row)]!);
+    }
+
+    return min;
+  }
+
+  /**
+   * Widen the sketch so it can track at least the given number of distinct items
+   * Existing counts carry over, so estimates stay as accurate as before
+   * @param items The number of distinct items to track
+   */
+  ensureCapacity(items: number): void {
+    const width = this.width;
+    if (items <= width) return;
+
+    const size = 2 ** Math.ceil(Math.log2(items));
+    const table = new Uint8Array(size * DEPTH);
+
+    // An item's index in a wider row keeps the low bits of its index in the narrower one
+    for (let row = 0; row < DEPTH; row++) {
+      for (let i = 0; i < size; i++) {
+        table[row * size + i] = this.table[row * width + (i & this.mask)]!;
+      }
+    }
+
+    this.table = table;
+    this.mask = size - 1;
+    this.sampleSize = size * this.sampleRatio;
+  }
+
+  /**
+   * Forget every recorded item
+   */
+  clear(): void {
+    this.table.fill(0);
+    this.additions = 0;
+  }
+
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i]! >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  private indexOf(hash: number, row: number): number {
+    let mixed = Math.imul(hash ^ SEEDS[row]!, 0x9e3779b1);
+    mixed ^= mixed >>> 15;
+    return row * this.width + (mixed & this.mask);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param input The string to hash
+ * @returns An unsigned 32-bit integer
+ */
+export function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Order-dependent combination of two 32-bit hashes
+ * Two zero hashes combine to zero so that empty subtrees hash to zero
+ * @returns An unsigned 32-bit integer
+ */
+export function combineHashes(left: number, right: number): number {
+  if (left === 0 && right === 0) return 0;
+
+  let hash = Math.imul(left ^ 0x9e3779b9, 0x85ebca6b) ^ right;
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * Well-distributed 32-bit hash of a string
+ * Applies the MurmurHash3 finaliser to FNV-1a so that similar strings spread
+ * evenly, which matters when placing points on a hash ring
+ * @returns An unsigned 32-bit integer
+ */
+export function hashString(input: string): number {
+  let hash = fnv1a(input);
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
@@ -0,0 +1,87 @@
+import type { Writable } from 'stream';
+
+/**
+ * Write each item as one line of JSON, waiting for the stream to drain when its buffer is full
+ * The stream is left open so callers can decide when to end it
+ * @param stream The stream to write to
+ * @param items The items to serialize
+ * @returns The number of lines written
+ */
+export async function writeJsonLines(stream: Writable, items: Iterable<unknown>): Promise<number> {
+  let written = 0;
+
+  for (const item of items) {
+    if (!stream.write(`${JSON.stringify(item)}\n`)) {
+      await drained(stream);
+    }
+    written++;
+  }
+
+  return written;
+}
+
+/**
+ * Options for reading JSON lines
+ */
+export interface ReadJsonLinesOptions {
+  /** Ignore a final line without a trailing newline, e.g. one torn by a crash mid-write */
+  skipIncompleteLastLine?: boolean;
+}
+
+/**
+ * Parse a stream of JSON lines, skipping blank lines
+ * @param stream Source of text or UTF-8 encoded chunks, such as a Readable
+ * @param options Parsing options
+ * @throws Error if a line is not valid JSON
+ */
+export async function* readJsonLines(
+  stream: AsyncIterable<string | Uint8Array>,
+  options: ReadJsonLinesOptions = {},
+): AsyncIterableIterator<unknown> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let lineNumber = 0;
+
+  for await (const chunk of stream) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      lineNumber++;
+
+      if (line.trim()) yield parseLine(line, lineNumber);
+      newline = buffered.indexOf('\n');
+    }
+  }
+
+  buffered += decoder.decode();
+  if (buffered.trim() && !options.skipIncompleteLastLine) {
+    yield parseLine(buffered, lineNumber + 1);
+  }
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new Error(`Invalid JSON on line ${lineNumber}`);
+  }
+}
+
+function drained(stream: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      stream.off('drain', onDrain);
+      reject(error);
+    };
+
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+  });
+}
@@ -75,6 +75,27 @@ export class DoublyLinkedList<T> {
     return newNode;
   }
 
+  /**
+   * Add a new node directly after an existing one
+   * @param node A node of this list
+   * @param value The value to add
+   * @returns The newly created node
+   */
+  addAfter(node: ListNode<T>, value: T): ListNode<T> {
+    if (node === this.tail) {
+      return this.addBack(value);
+    }
+
+    const newNode = new ListNode<T>(value);
+    newNode.prev = node;
+    newNode.next = node.next;
+    node.next!.prev = newNode;
+    node.next = newNode;
+
+    this._size++;
+    return newNode;
+  }
+
   /**
    * Remove a node from the list
    * @param node The node to remove
@@ -177,4 +198,29 @@ export class DoublyLinkedList<T> {
     this._size--;
     return value;
   }
+
+  /**
+   * Iterate over the values from the front to the back of the list
+   */
+  *values(): IterableIterator<T> {
+    for (let node = this.head; node; node = node.next) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Iterate over the values from the back to the front of the list
+   */
+  *valuesReversed(): IterableIterator<T> {
+    for (let node = this.tail; node; node = node.prev) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * Iterate over the values from the front to the back of the list
+   */
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.values();
+  }
 }
@@ -0,0 +1,225 @@
+import { combineHashes, fnv1a } from './hash';
+
+/**
+ * Options for configuring the MerkleTree
+ */
+export interface MerkleTreeOptions {
+  /** Number of levels below the root; the tree has 2^depth leaf buckets */
+  depth?: number;
+}
+
+/**
+ * Contiguous run of leaf buckets, from start (inclusive) to end (exclusive)
+ * Each bucket covers a contiguous range of key hashes
+ */
+export interface MerkleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Merkle tree over hash buckets of a keyspace
+ * Every key contributes a hash of itself and its version digest to the leaf
+ * bucket its key hash falls into. Leaves combine entries with XOR, so updates
+ * only rehash the path from one leaf to the root.
+ */
+export class MerkleTree<K> {
+  readonly depth: number;
+  private readonly nodes: Uint32Array;
+  private readonly buckets: Array<Map<K, number> | undefined>;
+  private entryCount: number = 0;
+
+  /**
+   * Create a new MerkleTree with the specified options
+   * @param options Configuration options
+   */
+  constructor(options: MerkleTreeOptions = {}) {
+    this.depth = options.depth ?? 10;
+
+    if (!Number.isInteger(this.depth) || this.depth < 1 || this.depth > 20) {
+      throw new Error('Depth must be an integer between 1 and 20');
+    }
+
+    // Heap layout: node i has children 2i and 2i + 1, leaves start at leafCount
+    this.nodes = new Uint32Array(this.leafCount * 2);
+    this.buckets = new Array(this.leafCount);
+  }
+
+  /**
+   * Get the number of leaf buckets
+   */
+  get leafCount(): number {
+    return 1 << this.depth;
+  }
+
+  /**
+   * Get the number of keys tracked by the tree
+   */
+  get size(): number {
+    return this.entryCount;
+  }
+
+  /**
+   * Get the hash of the whole keyspace
+   */
+  get rootHash(): number {
+    return this.nodes[1]!;
+  }
+
+  /**
+   * Get the leaf bucket a key belongs to
+   * @param key The key to locate
+   */
+  bucketOf(key: K): number {
+    return fnv1a(String(key)) >>> (32 - this.depth);
+  }
+
+  /**
+   * Record the current version of a key
+   * @param key The key that changed
+   * @param digest A string identifying the key's version, equal on replicas that agree
+   */
+  update(key: K, digest: string): void {
+    const bucket = this.bucketOf(key);
+    const entries = (this.buckets[bucket] ??= new Map<K, number>());
+    const previous = entries.get(key);
+    const hash = fnv1a(`${String(key)}\u0000${digest}`);
+
+    if (previous === undefined) {
+      this.entryCount++;
+    }
+
+    entries.set(key, hash);
+    this.updateLeaf(bucket, (previous ?? 0) ^ hash);
+  }
+
+  /**
+   * Stop tracking a key
+   * @param key The key that was removed
+   * @returns True if the key was tracked
+   */
+  remove(key: K): boolean {
+    const bucket = this.bucketOf(key);
+    const entries = this.buckets[bucket];
+    const previous = entries?.get(key);
+
+    if (previous === undefined) {
+      return false;
+    }
+
+    entries!.delete(key);
+    this.entryCount--;
+    this.updateLeaf(bucket, previous);
+    return true;
+  }
+
+  /**
+   * Remove every key from the tree
+   */
+  clear(): void {
+    this.nodes.fill(0);
+    this.buckets.fill(undefined);
+    this.entryCount = 0;
+  }
+
+  /**
+   * Get the hashes of all leaf buckets, for comparison with a remote tree
+   */
+  leafHashes(): number[] {
+    return Array.from(this.nodes.subarray(this.leafCount));
+  }
+
+  /**
+   * Find the bucket ranges that differ from another tree of the same depth
+   * Subtrees with equal hashes are skipped without visiting their leaves
+   * @param other The tree to compare against
+   */
+  diff(other: MerkleTree<K>): MerkleRange[] {
+    if (other.depth !== this.depth) {
+      throw new Error('Cannot compare Merkle trees of different depths');
+    }
+
+    const differing: number[] = [];
+    const stack = [1];
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      if (this.nodes[index] === other.nodes[index]) continue;
+
+      if (index >= this.leafCount) {
+        differing.push(index - this.leafCount);
+      } else {
+        stack.push(2 * index + 1, 2 * index);
+      }
+    }
+
+    return MerkleTree.toRanges(differing);
+  }
+
+  /**
+   * Find the bucket ranges that differ from a remote tree's leaf hashes
+   * @param leafHashes Output of leafHashes() on a tree of the same depth
+   */
+  diffLeaves(leafHashes: number[]): MerkleRange[] {
+    if (leafHashes.length !== this.leafCount) {
+      throw new Error('Cannot compare Merkle trees of different depths');
+    }
+
+    const differing: number[] = [];
+
+    for (let i = 0; i < this.leafCount; i++) {
+      if (this.nodes[this.leafCount + i] !== leafHashes[i]) {
+        differing.push(i);
+      }
+    }
+
+    return MerkleTree.toRanges(differing);
+  }
+
+  /**
+   * List the keys that fall into the given bucket ranges
+   * @param ranges Ranges returned by diff() or diffLeaves()
+   */
+  keysInRanges(ranges: MerkleRange[]): K[] {
+    const keys: K[] = [];
+
+    for (const { start, end } of ranges) {
+      for (let bucket = Math.max(0, start); bucket < Math.min(end, this.leafCount); bucket++) {
+        const entries = this.buckets[bucket];
+        if (entries) keys.push(...entries.keys());
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Toggle an entry hash in a leaf and rehash the path up to the root
+   */
+  private updateLeaf(bucket: number, delta: number): void {
+    let index = this.leafCount + bucket;
+    this.nodes[index]! ^= delta;
+
+    for (index >>= 1; index >= 1; index >>= 1) {
+      this.nodes[index] = combineHashes(this.nodes[2 * index]!, this.nodes[2 * index + 1]!);
+    }
+  }
+
+  /**
+   * Collapse sorted bucket indices into contiguous ranges
+   */
+  private static toRanges(buckets: number[]): MerkleRange[] {
+    const ranges: MerkleRange[] = [];
+
+    for (const bucket of buckets) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === bucket) {
+        last.end++;
+      } else {
+        ranges.push({ start: bucket, end: bucket + 1 });
+      }
+    }
+
+    return ranges;
+  }
+}
@@ -0,0 +1,99 @@
+/** Bytes charged for every object, array, map, set or binary container */
+const OBJECT_OVERHEAD = 16;
+
+/** Bytes charged for values held by reference, such as functions and symbols */
+const REFERENCE_SIZE = 8;
+
+/**
+ * Method through which a value reports its own size to estimateSize
+ * Useful for classes whose internal state differs from the memory they stand for.
+ */
+export const estimatedSize = Symbol('estimatedSize');
+
+/**
+ * A value that reports its own memory size in bytes
+ */
+export interface SizeReporter {
+  [estimatedSize](): number;
+}
+
+/**
+ * Estimate the memory size of a value in bytes
+ * Objects, arrays, Maps and Sets are walked, counting their keys and contents.
+ * An object reachable more than once, including through a cycle, is counted once.
+ * Binary data (Buffers, typed arrays, ArrayBuffers) counts its byte length.
+ * Values implementing SizeReporter are not walked; their reported size is used instead.
+ * @param value The value to measure
+ */
+export function estimateSize(value: unknown): number {
+  const seen = new WeakSet<object>();
+  const pending: unknown[] = [value];
+  let size = 0;
+
+  // An explicit stack rather than recursion, so deeply nested values cannot overflow
+  while (pending.length > 0) {
+    const current = pending.pop();
+
+    if (typeof current !== 'object' || current === null) {
+      size += primitiveSize(current);
+      continue;
+    }
+
+    if (seen.has(current)) continue;
+    seen.add(current);
+
+    if (isSizeReporter(current)) {
+      size += current[estimatedSize]();
+      continue;
+    }
+
+    size += OBJECT_OVERHEAD;
+
+    if (ArrayBuffer.isView(current)) {
+      size += current.byteLength;
+    } else if (current instanceof ArrayBuffer || current instanceof SharedArrayBuffer) {
+      size += current.byteLength;
+    } else if (current instanceof Date) {
+      size += 8;
+    } else if (current instanceof Map) {
+      for (const [key, entry] of current) pending.push(key, entry);
+    } else if (current instanceof Set) {
+      for (const entry of current) pending.push(entry);
+    } else if (Array.isArray(current)) {
+      for (const entry of current) pending.push(entry);
+    } else {
+      for (const [key, entry] of Object.entries(current)) {
+        size += key.length * 2;
+        pending.push(entry);
+      }
+    }
+  }
+
+  return size;
+}
+
+function isSizeReporter(value: object): value is SizeReporter {
+  return typeof (value as Partial<SizeReporter>)[estimatedSize] === 'function';
+}
+
+function primitiveSize(value: unknown): number {
+  switch (typeof value) {
+    case 'boolean':
+      return 4;
+    case 'number':
+      return 8;
+    case 'string':
+      return value.length * 2;
+    case 'bigint':
+      return OBJECT_OVERHEAD + Math.ceil(bitLength(value) / 64) * 8;
+    case 'symbol':
+    case 'function':
+      return REFERENCE_SIZE;
+    default:
+      return 0;
+  }
+}
+
+function bitLength(value: bigint): number {
+  return (value < 0n ? -value : value).toString(2).length;
+}
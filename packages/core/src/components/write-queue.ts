@@ -0,0 +1,167 @@
+/**
+ * Backing store that a cache writes through to
+ */
+export interface CacheWriter<K, V> {
+  /** Persist a stored value */
+  write(key: K, value: V): Promise<void>;
+
+  /** Remove a deleted key, if the backing store supports it */
+  delete?(key: K): Promise<void>;
+}
+
+/**
+ * When writes reach the backing store
+ * - write-through: immediately, one at a time per key
+ * - write-behind: after a delay, keeping only the latest change to each key
+ */
+export type WriteMode = 'write-through' | 'write-behind';
+
+/**
+ * Options for configuring a WriteQueue
+ */
+export interface WriteQueueOptions<K> {
+  /** When writes are sent, defaults to write-through */
+  mode?: WriteMode;
+
+  /** How long write-behind changes are held and coalesced */
+  delayMs?: number;
+
+  /** Called whenever a write fails */
+  onError?: (error: unknown, key: K) => void;
+}
+
+type WriteOperation<V> = { kind: 'write'; value: V } | { kind: 'delete' };
+
+/**
+ * Orders and optionally coalesces the writes a cache sends to its backing store
+ * Writes to the same key are applied in the order they were made; writes to
+ * different keys run concurrently.
+ */
+export class WriteQueue<K, V> {
+  private readonly writer: CacheWriter<K, V>;
+  private readonly mode: WriteMode;
+  private readonly delayMs: number;
+  private readonly onError: ((error: unknown, key: K) => void) | undefined;
+  private readonly pending = new Map<K, WriteOperation<V>>();
+  private readonly chains = new Map<K, Promise<void>>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private firstError: unknown;
+  private failures = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Create a new WriteQueue
+   * @param writer The backing store
+   * @param options Configuration options
+   */
+  constructor(writer: CacheWriter<K, V>, options: WriteQueueOptions<K> = {}) {
+    this.writer = writer;
+    this.mode = options.mode ?? 'write-through';
+    this.delayMs = options.delayMs ?? 1000;
+    this.onError = options.onError;
+
+    if (this.delayMs <= 0) {
+      throw new Error('Write-behind delay must be a positive number');
+    }
+  }
+
+  /**
+   * Get the number of writes not yet completed
+   */
+  get size(): number {
+    return this.pending.size + this.inFlight.size;
+  }
+
+  /**
+   * Get the number of writes that failed since the previous flush
+   * Only the first error is kept, so a long outage does not pile up errors
+   */
+  get failedWrites(): number {
+    return this.failures;
+  }
+
+  /**
+   * Queue a write of a stored value
+   */
+  write(key: K, value: V): void {
+    this.enqueue(key, { kind: 'write', value });
+  }
+
+  /**
+   * Queue removal of a deleted key
+   */
+  delete(key: K): void {
+    this.enqueue(key, { kind: 'delete' });
+  }
+
+  /**
+   * Send any held write-behind changes and wait for every write to complete
+   * @throws The first error raised by a write since the previous flush
+   */
+  async flush(): Promise<void> {
+    this.drain();
+
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled(this.inFlight);
+    }
+
+    const error = this.firstError;
+    const failures = this.failures;
+    this.firstError = undefined;
+    this.failures = 0;
+
+    if (failures > 0) {
+      throw error;
+    }
+  }
+
+  private enqueue(key: K, operation: WriteOperation<V>): void {
+    if (this.mode === 'write-through') {
+      this.dispatch(key, operation);
+      return;
+    }
+
+    // Only the latest change to a key is worth sending
+    this.pending.set(key, operation);
+    this.timer ??= setTimeout(() => this.drain(), this.delayMs);
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    for (const [key, operation] of this.pending) {
+      this.dispatch(key, operation);
+    }
+    this.pending.clear();
+  }
+
+  private dispatch(key: K, operation: WriteOperation<V>): void {
+    const previous = this.chains.get(key) ?? Promise.resolve();
+    // A write rejects only if onError throws, which must not stop later writes to the key
+    const next = previous.catch(() => undefined).then(() => this.apply(key, operation));
+
+    this.chains.set(key, next);
+    this.inFlight.add(next);
+
+    void next
+      .finally(() => {
+        this.inFlight.delete(next);
+        if (this.chains.get(key) === next) this.chains.delete(key);
+      })
+      .catch(() => undefined);
+  }
+
+  private async apply(key: K, operation: WriteOperation<V>): Promise<void> {
+    try {
+      if (operation.kind === 'write') {
+        await this.writer.write(key, operation.value);
+      } else {
+        await this.writer.delete?.(key);
+      }
+    } catch (error) {
+      if (this.failures++ === 0) this.firstError = error;
+      this.onError?.(error, key);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { getHeapStatistics } from 'v8';
+import { LRUCacheLimits } from './lru-cache';
+
+/**
+ * A cache whose memory limit can be adjusted, such as an LRUCache
+ */
+export interface ResizableCache {
+  readonly memoryUsage: number;
+  readonly limits: LRUCacheLimits;
+  resize(limits: Partial<LRUCacheLimits>): void;
+}
+
+/**
+ * Options for configuring an AdaptiveMemoryLimit
+ */
+export interface AdaptiveMemoryLimitOptions {
+  /** Smallest memory limit in bytes the cache is shrunk to */
+  minBytes: number;
+
+  /** Largest memory limit in bytes the cache is grown to */
+  maxBytes: number;
+
+  /** Interval between heap pressure checks, defaults to 5 seconds */
+  intervalMs?: number;
+
+  /** Heap usage ratio at or above which the limit shrinks, defaults to 0.85 */
+  highWatermark?: number;
+
+  /** Heap usage ratio at or below which the limit grows, defaults to 0.6 */
+  lowWatermark?: number;
+
+  /** Fraction the limit changes by per check, defaults to 0.25 */
+  step?: number;
+
+  /** Current heap usage as a ratio of the heap size limit, defaults to reading V8 statistics */
+  heapUsage?: () => number;
+}
+
+/**
+ * Scales a cache's memory limit between bounds according to heap pressure
+ * Under pressure the limit drops below what the cache currently uses, so entries
+ * are evicted and their memory can be collected. When the heap has room again the
+ * limit grows back towards the maximum.
+ */
+export class AdaptiveMemoryLimit {
+  private readonly cache: ResizableCache;
+  private readonly minBytes: number;
+  private readonly maxBytes: number;
+  private readonly intervalMs: number;
+  private readonly highWatermark: number;
+  private readonly lowWatermark: number;
+  private readonly step: number;
+  private readonly heapUsage: () => number;
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Create a new AdaptiveMemoryLimit
+   * @param cache The cache whose memory limit to manage
+   * @param options Configuration options
+   */
+  constructor(cache: ResizableCache, options: AdaptiveMemoryLimitOptions) {
+    this.cache = cache;
+    this.minBytes = options.minBytes;
+    this.maxBytes = options.maxBytes;
+    this.intervalMs = options.intervalMs ?? 5000;
+    this.highWatermark = options.highWatermark ?? 0.85;
+    this.lowWatermark = options.lowWatermark ?? 0.6;
+    this.step = options.step ?? 0.25;
+    this.heapUsage = options.heapUsage ?? defaultHeapUsage;
+
+    if (!(this.minBytes > 0) || !(this.maxBytes >= this.minBytes)) {
+      throw new Error('Memory bounds must be positive with minBytes at most maxBytes');
+    }
+
+    if (!(this.intervalMs > 0)) {
+      throw new Error('Interval must be a positive number');
+    }
+
+    if (!(this.lowWatermark > 0 && this.lowWatermark < this.highWatermark)) {
+      throw new Error('Watermarks must be positive with lowWatermark below highWatermark');
+    }
+
+    if (!(this.step > 0 && this.step < 1)) {
+      throw new Error('Step must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Start checking heap pressure every interval
+   */
+  start(): void {
+    if (this.timer) return;
+    this.check();
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop checking heap pressure, leaving the current limit in place
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Adjust the memory limit once according to the current heap pressure
+   * @returns The cache's new memory limit in bytes
+   */
+  check(): number {
+    const current = this.clamp(this.cache.limits.maxMemoryBytes);
+    const pressure = this.heapUsage();
+    let next = current;
+
+    if (pressure >= this.highWatermark) {
+      // Shrink from what is actually used, or a mostly empty cache would free nothing
+      next = this.clamp(Math.floor(Math.min(current, this.cache.memoryUsage) * (1 - this.step)));
+    } else if (pressure <= this.lowWatermark) {
+      next = this.clamp(Math.ceil(current * (1 + this.step)));
+    }
+
+    if (next !== this.cache.limits.maxMemoryBytes) {
+      this.cache.resize({ maxMemoryBytes: next });
+    }
+
+    return next;
+  }
+
+  private clamp(bytes: number): number {
+    return Math.min(this.maxBytes, Math.max(this.minBytes, bytes));
+  }
+}
+
+function defaultHeapUsage(): number {
+  const { used_heap_size, heap_size_limit } = getHeapStatistics();
+  return used_heap_size / heap_size_limit;
+}
@@ -0,0 +1,222 @@
+import { LRUCache, LRUCacheOptions, LRUCacheStats } from './lru-cache';
+
+/**
+ * Options for configuring a CacheManager
+ */
+export interface CacheManagerOptions {
+  /** Memory budget in bytes shared by every cache the manager creates */
+  maxMemoryBytes: number;
+}
+
+/**
+ * Options for a cache created by a CacheManager
+ * maxMemoryBytes is optional and defaults to the whole budget; set it to also cap
+ * the cache on its own.
+ */
+export interface NamespaceOptions<K, V> extends LRUCacheOptions<V, K> {
+  /**
+   * How long entries survive relative to other caches, defaults to 1
+   * A cache with weight 2 keeps entries twice as long since their last use before
+   * they are evicted to make room for other caches.
+   */
+  weight?: number;
+
+  /** Memory in bytes reserved for the cache, which other caches never evict into */
+  minBytes?: number;
+}
+
+/**
+ * Usage of a single cache created by a CacheManager
+ */
+export interface NamespaceStats extends LRUCacheStats {
+  /** Number of entries */
+  size: number;
+
+  /** Memory usage in bytes */
+  memoryUsage: number;
+}
+
+/**
+ * A cache managed by a CacheManager
+ */
+interface Namespace {
+  cache: LRUCache<unknown, unknown>;
+  weight: number;
+  minBytes: number;
+
+  /** Removes the manager's listener from the cache */
+  unsubscribe: () => void;
+}
+
+/**
+ * Named caches sharing one memory budget
+ * When a write takes the total over the budget, entries are evicted across all
+ * caches by global recency, so idle caches give memory to busy ones. Weights make
+ * a cache's entries outlive those of others, and reservations guarantee a cache
+ * some memory regardless of how busy the others are.
+ */
+export class CacheManager {
+  private readonly maxMemoryBytes: number;
+  private readonly namespaces = new Map<string, Namespace>();
+
+  /**
+   * Create a new CacheManager
+   * @param options Configuration options
+   */
+  constructor(options: CacheManagerOptions) {
+    this.maxMemoryBytes = options.maxMemoryBytes;
+
+    if (!(this.maxMemoryBytes > 0)) {
+      throw new Error('Maximum memory must be a positive number');
+    }
+  }
+
+  /**
+   * Get the names of the managed caches
+   */
+  get names(): string[] {
+    return [...this.namespaces.keys()];
+  }
+
+  /**
+   * Get the total memory usage of the managed caches in bytes
+   */
+  get memoryUsage(): number {
+    let total = 0;
+    for (const { cache } of this.namespaces.values()) {
+      total += cache.memoryUsage;
+    }
+    return total;
+  }
+
+  /**
+   * Create a cache sharing the manager's memory budget
+   * @param name Unique name of the cache
+   * @param options Configuration options
+   * @returns The new cache
+   * @throws Error if the name is taken or the reservations exceed the budget
+   */
+  createCache<K, V>(name: string, options: NamespaceOptions<K, V> = {}): LRUCache<K, V> {
+    const { weight = 1, minBytes = 0, ...cacheOptions } = options;
+
+    if (this.namespaces.has(name)) {
+      throw new Error(`Cache ${name} already exists`);
+    }
+
+    if (!(weight > 0)) {
+      throw new Error('Weight must be a positive number');
+    }
+
+    if (!(minBytes >= 0) || this.reservedBytes() + minBytes > this.maxMemoryBytes) {
+      throw new Error('Reserved memory must fit within the memory budget');
+    }
+
+    const cache = new LRUCache<K, V>({
+      ...cacheOptions,
+      maxMemoryBytes: Math.min(cacheOptions.maxMemoryBytes ?? Infinity, this.maxMemoryBytes),
+    });
+
+    this.namespaces.set(name, {
+      cache: cache as LRUCache<unknown, unknown>,
+      weight,
+      minBytes,
+      unsubscribe: cache.on('set', () => this.enforceBudget()),
+    });
+
+    return cache;
+  }
+
+  /**
+   * Get a managed cache
+   * @param name Name of the cache
+   * @returns The cache or undefined if there is none with that name
+   */
+  getCache<K, V>(name: string): LRUCache<K, V> | undefined {
+    return this.namespaces.get(name)?.cache as LRUCache<K, V> | undefined;
+  }
+
+  /**
+   * Clear a cache and stop managing it
+   * @param name Name of the cache
+   * @returns True if the cache was removed, false if it didn't exist
+   */
+  removeCache(name: string): boolean {
+    const namespace = this.namespaces.get(name);
+    if (!namespace) return false;
+
+    namespace.unsubscribe();
+    namespace.cache.clear();
+    this.namespaces.delete(name);
+    return true;
+  }
+
+  /**
+   * Get the usage of every managed cache
+   * @returns Stats keyed by cache name
+   */
+  stats(): Record<string, NamespaceStats> {
+    const stats: Record<string, NamespaceStats> = {};
+
+    for (const [name, { cache }] of this.namespaces) {
+      stats[name] = { ...cache.stats(), size: cache.size, memoryUsage: cache.memoryUsage };
+    }
+
+    return stats;
+  }
+
+  /**
+   * Clear one managed cache, or all of them
+   * @param name Name of the cache to clear, omitted to clear every cache
+   * @throws Error if there is no cache with the given name
+   */
+  clear(name?: string): void {
+    if (name === undefined) {
+      for (const { cache } of this.namespaces.values()) cache.clear();
+      return;
+    }
+
+    const namespace = this.namespaces.get(name);
+    if (!namespace) {
+      throw new Error(`Cache ${name} does not exist`);
+    }
+
+    namespace.cache.clear();
+  }
+
+  private reservedBytes(): number {
+    let total = 0;
+    for (const { minBytes } of this.namespaces.values()) total += minBytes;
+    return total;
+  }
+
+  /**
+   * Evict the globally least recently used entries until the caches fit the budget
+   */
+  private enforceBudget(): void {
+    while (this.memoryUsage > this.maxMemoryBytes) {
+      const victim = this.victimNamespace();
+      if (!victim?.cache.evictVictim()) break;
+    }
+  }
+
+  /**
+   * Find the cache whose next victim has gone unused longest, relative to its weight
+   * Caches within their reservation are skipped
+   */
+  private victimNamespace(): Namespace | undefined {
+    let oldest: Namespace | undefined;
+    let oldestAge = -1;
+
+    for (const namespace of this.namespaces.values()) {
+      if (namespace.cache.memoryUsage <= namespace.minBytes) continue;
+
+      const age = (namespace.cache.victimAge() ?? -1) / namespace.weight;
+      if (age > oldestAge) {
+        oldest = namespace;
+        oldestAge = age;
+      }
+    }
+
+    return oldest;
+  }
+}
@@ -0,0 +1,90 @@
+import type { CrdtType } from '../crdt/crdt';
+import { HybridLogicalClock } from './hybrid-clock';
+import { mergeClocks } from './vector-clock';
+import type { Versioned } from './versioned-store';
+
+/**
+ * Strategy for reconciling concurrent versions of a key
+ */
+export interface ConflictResolver<V> {
+  /**
+   * Resolve a set of mutually concurrent siblings
+   * @param siblings At least two versions, none of which descends from another
+   * @returns The versions to keep
+   */
+  resolve(siblings: Versioned<V>[]): Versioned<V>[];
+}
+
+/**
+ * Keeps every concurrent version so the application can resolve them on read
+ */
+export class KeepAllSiblingsResolver<V> implements ConflictResolver<V> {
+  resolve(siblings: Versioned<V>[]): Versioned<V>[] {
+    return siblings;
+  }
+}
+
+/**
+ * Keeps the version with the latest hybrid timestamp and discards the rest
+ * A delete wins over concurrent writes if its tombstone is the latest version
+ */
+export class LastWriterWinsResolver<V> implements ConflictResolver<V> {
+  resolve(siblings: Versioned<V>[]): Versioned<V>[] {
+    const winner = siblings.reduce((latest, version) =>
+      HybridLogicalClock.compare(version.timestamp, latest.timestamp) > 0 ? version : latest,
+    );
+
+    return [{ ...winner, clock: mergeClocks(siblings) }];
+  }
+}
+
+/**
+ * Combines all concurrent values into one using an application-defined function,
+ * e.g. the union of two sets
+ * Tombstones have no value to combine, so concurrent writes survive a delete
+ */
+export class MergeFunctionResolver<V> implements ConflictResolver<V> {
+  private readonly mergeValues: (a: V, b: V) => V;
+
+  /**
+   * Create a new MergeFunctionResolver
+   * @param mergeValues Commutative and associative function combining two values
+   */
+  constructor(mergeValues: (a: V, b: V) => V) {
+    this.mergeValues = mergeValues;
+  }
+
+  resolve(siblings: Versioned<V>[]): Versioned<V>[] {
+    // Order deterministically so every replica computes the same result
+    const ordered = [...siblings].sort((a, b) =>
+      HybridLogicalClock.compare(a.timestamp, b.timestamp),
+    );
+
+    const live = ordered.filter((version) => !version.deleted);
+    const clock = mergeClocks(ordered);
+    const timestamp = ordered[ordered.length - 1]!.timestamp;
+
+    if (live.length === 0) {
+      return [{ value: undefined as V, clock, timestamp, deleted: true }];
+    }
+
+    return [
+      { value: live.map((version) => version.value).reduce(this.mergeValues), clock, timestamp },
+    ];
+  }
+}
+
+/**
+ * Merges concurrent values of a CRDT, such as a PNCounter or ORSet, so replication
+ * converges on one value instead of producing siblings
+ * Values are stored in their serialized form, as produced by the CRDT's toJSON().
+ */
+export class CrdtResolver<J> extends MergeFunctionResolver<J> {
+  /**
+   * Create a new CrdtResolver
+   * @param type The CRDT class the values are serialized from
+   */
+  constructor(type: CrdtType<J>) {
+    super((a, b) => type.fromJSON(a).merge(type.fromJSON(b)).toJSON());
+  }
+}
@@ -0,0 +1,434 @@
+import { CountMinSketch } from '../components/count-min-sketch';
+import { hashString } from '../components/hash';
+import { DoublyLinkedList, ListNode } from '../components/linked-list';
+
+/**
+ * Decides which entry a cache evicts when it is over its limits
+ * The cache reports every change to its keys and asks for a victim while it
+ * needs room. victim() must return a key the policy was told about and not yet
+ * told to remove, and must not change the policy's state: caches sharing a
+ * memory budget ask every cache for its victim but evict from only one of them.
+ */
+export interface EvictionPolicy<K> {
+  /** Record a key added to the cache */
+  insert(key: K): void;
+
+  /** Record a read or overwrite of a cached key */
+  touch(key: K): void;
+
+  /**
+   * Record a key leaving the cache
+   * @param evicted True if the cache evicted it to make room, false if it was deleted or expired
+   */
+  remove(key: K, evicted: boolean): void;
+
+  /** Pick the key to evict next, or undefined if the policy tracks no keys */
+  victim(): K | undefined;
+
+  /** Forget every key */
+  clear(): void;
+}
+
+/**
+ * Built-in eviction policies
+ * - lru: evict the least recently used entry
+ * - lfu: evict the least frequently used entry, the least recently used among ties
+ * - w-tinylfu: admit entries to the main space only if they are used more often
+ *   than what they would replace, which keeps one-off scans from flushing hot keys
+ * - arc: balance recency and frequency, adapting to the workload
+ */
+export type EvictionPolicyName = 'lru' | 'lfu' | 'w-tinylfu' | 'arc';
+
+/**
+ * Create a built-in eviction policy
+ * @param name The policy to create
+ * @returns The policy, or undefined for lru, which the cache implements with its own recency list
+ */
+export function createEvictionPolicy<K>(name: EvictionPolicyName): EvictionPolicy<K> | undefined {
+  switch (name) {
+    case 'lru':
+      return undefined;
+    case 'lfu':
+      return new LFUPolicy<K>();
+    case 'w-tinylfu':
+      return new WTinyLFUPolicy<K>();
+    case 'arc':
+      return new ARCPolicy<K>();
+    default:
+      throw new Error(`Unknown eviction policy: ${String(name)}`);
+  }
+}
+
+interface FrequencyBucket<K> {
+  frequency: number;
+
+  /** Keys used this often, most recently used first */
+  keys: DoublyLinkedList<K>;
+}
+
+interface LFUEntry<K> {
+  bucket: ListNode<FrequencyBucket<K>>;
+  node: ListNode<K>;
+}
+
+/**
+ * Least frequently used eviction in O(1)
+ * Keys are grouped in buckets of equal use count, kept in ascending order, so
+ * the victim is always the oldest key of the first bucket.
+ */
+export class LFUPolicy<K> implements EvictionPolicy<K> {
+  private readonly buckets = new DoublyLinkedList<FrequencyBucket<K>>();
+  private readonly entries = new Map<K, LFUEntry<K>>();
+
+  insert(key: K): void {
+    let bucket = this.buckets.getFirst();
+
+    if (!bucket || bucket.value.frequency !== 1) {
+      bucket = this.buckets.addFront({ frequency: 1, keys: new DoublyLinkedList<K>() });
+    }
+
+    this.entries.set(key, { bucket, node: bucket.value.keys.addFront(key) });
+  }
+
+  touch(key: K): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    const { bucket } = entry;
+    const frequency = bucket.value.frequency + 1;
+    let next = bucket.next;
+
+    if (!next || next.value.frequency !== frequency) {
+      next = this.buckets.addAfter(bucket, { frequency, keys: new DoublyLinkedList<K>() });
+    }
+
+    this.unlink(entry);
+    entry.bucket = next;
+    entry.node = next.value.keys.addFront(key);
+  }
+
+  remove(key: K): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.unlink(entry);
+    this.entries.delete(key);
+  }
+
+  victim(): K | undefined {
+    return this.buckets.getFirst()?.value.keys.getLast()?.value;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    while (this.buckets.removeFirst() !== null) {
+      // Drop every bucket
+    }
+  }
+
+  private unlink(entry: LFUEntry<K>): void {
+    entry.bucket.value.keys.remove(entry.node);
+
+    if (entry.bucket.value.keys.isEmpty()) {
+      this.buckets.remove(entry.bucket);
+    }
+  }
+}
+
+type Segment = 'window' | 'probation' | 'protected';
+
+const SKETCH_KEYS_PER_ENTRY = 4;
+
+interface SegmentEntry<K> {
+  segment: Segment;
+  node: ListNode<K>;
+}
+
+/**
+ * Window TinyLFU eviction
+ * New keys enter a small LRU window. When the window overflows, its oldest key
+ * competes with the main space's victim, and only the one a count-min sketch
+ * estimates to be used more often stays. The main space is a segmented LRU:
+ * keys used again while on probation move to a protected segment.
+ */
+export class WTinyLFUPolicy<K> implements EvictionPolicy<K> {
+  private readonly windowRatio: number;
+  private readonly protectedRatio: number;
+  private readonly segments: Record<Segment, DoublyLinkedList<K>> = {
+    window: new DoublyLinkedList<K>(),
+    probation: new DoublyLinkedList<K>(),
+    protected: new DoublyLinkedList<K>(),
+  };
+  private readonly entries = new Map<K, SegmentEntry<K>>();
+  private readonly hashes = new KeyHasher<K>();
+  // Age the counts after ten times as many accesses as there are entries
+  private readonly sketch = new CountMinSketch(16, 10 / SKETCH_KEYS_PER_ENTRY);
+
+  /**
+   * Create a new WTinyLFUPolicy
+   * @param windowRatio Share of the entries kept in the admission window
+   * @param protectedRatio Share of the main space reserved for keys used more than once
+   */
+  constructor(windowRatio: number = 0.01, protectedRatio: number = 0.8) {
+    if (!(windowRatio > 0 && windowRatio < 1) || !(protectedRatio > 0 && protectedRatio < 1)) {
+      throw new Error('Segment ratios must be between 0 and 1');
+    }
+
+    this.windowRatio = windowRatio;
+    this.protectedRatio = protectedRatio;
+  }
+
+  insert(key: K): void {
+    this.record(key);
+    this.entries.set(key, { segment: 'window', node: this.segments.window.addFront(key) });
+
+    // While the cache is filling up nothing is evicted, so keys leave the window freely
+    if (this.segments.window.size > this.windowMax()) {
+      const spilled = this.segments.window.getLast()!.value;
+      this.move(this.entries.get(spilled)!, spilled, 'probation');
+    }
+
+    // Grow the sketch with the cache, tracking more keys than are cached so that
+    // recently evicted keys are still counted and collisions stay rare
+    this.sketch.ensureCapacity(this.entries.size * SKETCH_KEYS_PER_ENTRY);
+  }
+
+  touch(key: K): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.record(key);
+
+    if (entry.segment !== 'probation') {
+      this.segments[entry.segment].moveToFront(entry.node);
+      return;
+    }
+
+    this.move(entry, key, 'protected');
+
+    const protectedMax = Math.max(
+      1,
+      Math.floor((this.entries.size - this.windowMax()) * this.protectedRatio),
+    );
+    if (this.segments.protected.size > protectedMax) {
+      const demoted = this.segments.protected.getLast()!.value;
+      this.move(this.entries.get(demoted)!, demoted, 'probation');
+    }
+  }
+
+  remove(key: K, evicted: boolean): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    // Evicting a main space key that lost to the window's oldest key admits that key
+    const admitted =
+      evicted && entry.segment !== 'window' && this.admits(key)
+        ? this.segments.window.getLast()!.value
+        : undefined;
+
+    this.segments[entry.segment].remove(entry.node);
+    this.entries.delete(key);
+
+    if (admitted !== undefined) {
+      this.move(this.entries.get(admitted)!, admitted, 'probation');
+    }
+  }
+
+  victim(): K | undefined {
+    const candidate = this.segments.window.getLast()?.value;
+    const mainVictim = (this.segments.probation.getLast() ?? this.segments.protected.getLast())
+      ?.value;
+
+    if (candidate === undefined || mainVictim === undefined) {
+      return candidate ?? mainVictim;
+    }
+
+    // The next key inserted fits in the window, so room is made in the main space
+    if (this.segments.window.size < this.windowMax()) {
+      return mainVictim;
+    }
+
+    // The window's oldest key has to leave it: it only enters the main space, once
+    // remove() is called for the key it replaces, if it is used more often than that key
+    return this.admits(mainVictim) ? mainVictim : candidate;
+  }
+
+  clear(): void {
+    for (const segment of Object.values(this.segments)) {
+      while (segment.removeFirst() !== null) {
+        // Drop every key
+      }
+    }
+    this.entries.clear();
+    this.hashes.clear();
+    this.sketch.clear();
+  }
+
+  private windowMax(): number {
+    return Math.max(1, Math.floor(this.entries.size * this.windowRatio));
+  }
+
+  /**
+   * Check whether the window is full and its oldest key is used more often than a main space key
+   */
+  private admits(mainVictim: K): boolean {
+    const candidate = this.segments.window.getLast()?.value;
+
+    return (
+      candidate !== undefined &&
+      this.segments.window.size >= this.windowMax() &&
+      this.estimate(candidate) > this.estimate(mainVictim)
+    );
+  }
+
+  private move(entry: SegmentEntry<K>, key: K, segment: Segment): void {
+    this.segments[entry.segment].remove(entry.node);
+    entry.segment = segment;
+    entry.node = this.segments[segment].addFront(key);
+  }
+
+  private record(key: K): void {
+    this.sketch.increment(this.hashes.hash(key));
+  }
+
+  private estimate(key: K): number {
+    return this.sketch.estimate(this.hashes.hash(key));
+  }
+}
+
+type ARCList = 't1' | 't2' | 'b1' | 'b2';
+
+interface ARCEntry<K> {
+  list: ARCList;
+  node: ListNode<K>;
+}
+
+/**
+ * Adaptive Replacement Cache eviction
+ * Cached keys are split between t1, seen once recently, and t2, seen at least
+ * twice. Evicted keys are remembered in the ghost lists b1 and b2; a miss on a
+ * ghost key shifts the target size of t1 towards whichever list would have
+ * kept it, so the policy tunes itself between recency and frequency.
+ */
+export class ARCPolicy<K> implements EvictionPolicy<K> {
+  private readonly lists: Record<ARCList, DoublyLinkedList<K>> = {
+    t1: new DoublyLinkedList<K>(),
+    t2: new DoublyLinkedList<K>(),
+    b1: new DoublyLinkedList<K>(),
+    b2: new DoublyLinkedList<K>(),
+  };
+  private readonly entries = new Map<K, ARCEntry<K>>();
+  private target: number = 0;
+  private capacity: number = 0;
+
+  insert(key: K): void {
+    const { t1, t2, b1, b2 } = this.lists;
+    const ghost = this.entries.get(key);
+
+    // The capacity is learned from the most entries the cache has held
+    this.capacity = Math.max(this.capacity, t1.size + t2.size + 1);
+
+    if (ghost?.list === 'b1') {
+      this.target = Math.min(this.capacity, this.target + Math.max(1, b2.size / b1.size));
+      this.move(ghost, key, 't2');
+    } else if (ghost?.list === 'b2') {
+      this.target = Math.max(0, this.target - Math.max(1, b1.size / b2.size));
+      this.move(ghost, key, 't2');
+    } else {
+      this.entries.set(key, { list: 't1', node: t1.addFront(key) });
+    }
+
+    this.trimGhosts();
+  }
+
+  touch(key: K): void {
+    const entry = this.entries.get(key);
+
+    if (entry?.list === 't1') {
+      this.move(entry, key, 't2');
+    } else if (entry?.list === 't2') {
+      this.lists.t2.moveToFront(entry.node);
+    }
+  }
+
+  remove(key: K, evicted: boolean): void {
+    const entry = this.entries.get(key);
+    if (!entry || entry.list === 'b1' || entry.list === 'b2') return;
+
+    if (evicted) {
+      this.move(entry, key, entry.list === 't1' ? 'b1' : 'b2');
+      this.trimGhosts();
+    } else {
+      this.lists[entry.list].remove(entry.node);
+      this.entries.delete(key);
+    }
+  }
+
+  victim(): K | undefined {
+    const { t1, t2 } = this.lists;
+
+    if (t1.size > 0 && (t1.size > this.target || t2.size === 0)) {
+      return t1.getLast()!.value;
+    }
+
+    return t2.getLast()?.value;
+  }
+
+  clear(): void {
+    for (const list of Object.values(this.lists)) {
+      while (list.removeFirst() !== null) {
+        // Drop every key
+      }
+    }
+    this.entries.clear();
+    this.target = 0;
+    this.capacity = 0;
+  }
+
+  private move(entry: ARCEntry<K>, key: K, list: ARCList): void {
+    this.lists[entry.list].remove(entry.node);
+    entry.list = list;
+    entry.node = this.lists[list].addFront(key);
+  }
+
+  /**
+   * Keep t1 and b1 within the capacity, and all four lists within twice of it
+   */
+  private trimGhosts(): void {
+    const { t1, t2, b1, b2 } = this.lists;
+
+    while (t1.size + b1.size > this.capacity && b1.size > 0) {
+      this.entries.delete(b1.removeLast()!);
+    }
+
+    while (t1.size + t2.size + b1.size + b2.size > 2 * this.capacity && b2.size > 0) {
+      this.entries.delete(b2.removeLast()!);
+    }
+  }
+}
+
+/**
+ * Hashes keys of any type for the frequency sketch
+ * Primitive keys hash by value; object keys hash by identity.
+ */
+class KeyHasher<K> {
+  private objectIds = new WeakMap<object, number>();
+  private nextObjectId: number = 0;
+
+  hash(key: K): number {
+    if ((typeof key === 'object' && key !== null) || typeof key === 'function') {
+      let id = this.objectIds.get(key);
+      if (id === undefined) {
+        id = this.nextObjectId++;
+        this.objectIds.set(key, id);
+      }
+      return hashString(`object:${id}`);
+    }
+
+    return hashString(`${typeof key}:${String(key)}`);
+  }
+
+  clear(): void {
+    this.objectIds = new WeakMap();
+  }
+}
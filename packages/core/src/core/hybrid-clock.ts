@@ -0,0 +1,84 @@
+/**
+ * Timestamp combining wall-clock time with a logical counter
+ * The node id breaks ties so that every timestamp is totally ordered
+ */
+export interface HybridTimestamp {
+  wallTime: number;
+  logical: number;
+  nodeId: string;
+}
+
+/**
+ * Hybrid logical clock producing monotonically increasing timestamps that stay
+ * close to wall-clock time even when node clocks drift
+ */
+export class HybridLogicalClock {
+  readonly nodeId: string;
+  private readonly physicalClock: () => number;
+  private wallTime: number = 0;
+  private logical: number = 0;
+
+  /**
+   * Create a new HybridLogicalClock
+   * @param nodeId Id of the node owning the clock
+   * @param physicalClock Source of wall-clock time in milliseconds
+   */
+  constructor(nodeId: string, physicalClock: () => number = Date.now) {
+    this.nodeId = nodeId;
+    this.physicalClock = physicalClock;
+  }
+
+  /**
+   * Generate a timestamp for a local event
+   */
+  now(): HybridTimestamp {
+    const physical = this.physicalClock();
+
+    if (physical > this.wallTime) {
+      this.wallTime = physical;
+      this.logical = 0;
+    } else {
+      this.logical++;
+    }
+
+    return this.current();
+  }
+
+  /**
+   * Advance the clock past a timestamp received from another node
+   * @param remote The received timestamp
+   * @returns A timestamp for the receive event
+   */
+  update(remote: HybridTimestamp): HybridTimestamp {
+    const physical = this.physicalClock();
+    const wallTime = Math.max(this.wallTime, remote.wallTime, physical);
+
+    if (wallTime === this.wallTime && wallTime === remote.wallTime) {
+      this.logical = Math.max(this.logical, remote.logical) + 1;
+    } else if (wallTime === this.wallTime) {
+      this.logical++;
+    } else if (wallTime === remote.wallTime) {
+      this.logical = remote.logical + 1;
+    } else {
+      this.logical = 0;
+    }
+
+    this.wallTime = wallTime;
+    return this.current();
+  }
+
+  private current(): HybridTimestamp {
+    return { wallTime: this.wallTime, logical: this.logical, nodeId: this.nodeId };
+  }
+
+  /**
+   * Compare two timestamps
+   * @returns A negative number if a is earlier, positive if later, 0 if identical
+   */
+  static compare(a: HybridTimestamp, b: HybridTimestamp): number {
+    if (a.wallTime !== b.wallTime) return a.wallTime - b.wallTime;
+    if (a.logical !== b.logical) return a.logical - b.logical;
+    if (a.nodeId === b.nodeId) return 0;
+    return a.nodeId < b.nodeId ? -1 : 1;
+  }
+}
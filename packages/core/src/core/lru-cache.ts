@@ -1,9 +1,96 @@
+import type { Readable, Writable } from 'stream';
+import { readJsonLines, writeJsonLines } from '../components/json-lines';
 import { DoublyLinkedList, ListNode } from '../components/linked-list';
+import { estimateSize } from '../components/size-estimator';
+import { CacheWriter, WriteMode, WriteQueue } from '../components/write-queue';
+import { createEvictionPolicy, EvictionPolicy, EvictionPolicyName } from './eviction-policy';
+
+export type { CacheWriter, WriteMode } from '../components/write-queue';
+
+/**
+ * Why an entry left the cache
+ */
+export type DisposeReason = 'capacity' | 'memory' | 'delete' | 'overwrite' | 'clear' | 'expired';
+
+/**
+ * Dispose reasons counted as evictions, as opposed to explicit removals
+ */
+export type EvictionReason = Extract<DisposeReason, 'capacity' | 'memory' | 'expired'>;
+
+/**
+ * Counters describing how a cache has been used since it was created or its stats were reset
+ */
+export interface LRUCacheStats {
+  /** Lookups with get() or fetch() that found a value, including stale ones */
+  hits: number;
+
+  /** Lookups with get() or fetch() that found nothing */
+  misses: number;
+
+  /** Values stored, including loaded and restored ones */
+  sets: number;
+
+  /** Stored values that replaced an existing one */
+  overwrites: number;
+
+  /** Entries removed to respect the limits or because they hard-expired */
+  evictions: Record<EvictionReason, number>;
+
+  /** Values not stored because they are larger than the memory limit */
+  rejected: number;
+
+  /** Highest memory usage in bytes */
+  memoryHighWater: number;
+}
+
+/**
+ * Listener signatures for events emitted by the LRUCache
+ */
+export interface LRUCacheEvents<K, V> {
+  /** Fired after a value has been stored */
+  set: (key: K, value: V) => void;
+
+  /** Fired after a value has been removed or replaced */
+  dispose: (key: K, value: V, reason: DisposeReason) => void;
+
+  /** Fired when the writer fails to persist a set or delete */
+  writeError: (error: unknown, key: K) => void;
+}
+
+/**
+ * Information passed to the loader about the load it is performing
+ */
+export interface LRUCacheLoaderContext<V> {
+  /** Aborted when the key is set, deleted or cleared, as the loaded value would be discarded */
+  signal: AbortSignal;
+
+  /** The stale value being refreshed, undefined when loading a missing key */
+  staleValue: V | undefined;
+}
+
+/**
+ * Function loading a missing or stale key, resolving to undefined if the key does not exist
+ */
+export type LRUCacheLoader<K, V> = (
+  key: K,
+  context: LRUCacheLoaderContext<V>,
+) => Promise<V | undefined>;
+
+/**
+ * What fetch() does when the loader fails
+ * - throw: reject with the loader's error
+ * - ignore: resolve to undefined
+ * - a function: resolve to its fallback value, which is not cached
+ */
+export type LoaderErrorBehavior<K, V> =
+  | 'throw'
+  | 'ignore'
+  | ((error: unknown, key: K) => V | undefined);
 
 /**
  * Options for configuring the LRUCache
  */
-export interface LRUCacheOptions<V> {
+export interface LRUCacheOptions<V, K = unknown> {
   /** Maximum number of items to store in the cache */
   maxItems?: number;
 
@@ -12,19 +99,197 @@ export interface LRUCacheOptions<V> {
 
   /** Function to calculate the memory size of a value */
   sizeCalculator?: (value: V) => number;
+
+  /** Count the estimated size of keys towards memory usage, not only values */
+  includeKeySize?: boolean;
+
+  /** Which entry to evict when over a limit: a built-in policy or a custom one, defaults to lru */
+  evictionPolicy?: EvictionPolicyName | EvictionPolicy<K>;
+
+  /** Time-to-live in milliseconds applied to entries set without an explicit TTL */
+  defaultTtlMs?: number;
+
+  /**
+   * How long an expired entry keeps being served while the loader refreshes it in the
+   * background, for entries set without an explicit window. Once it passes, the entry
+   * is hard-expired and no longer served.
+   */
+  staleWhileRevalidateMs?: number;
+
+  /** Called whenever an entry is evicted, deleted, overwritten, cleared or expires */
+  onDispose?: LRUCacheEvents<K, V>['dispose'];
+
+  /** Loads keys missing from the cache for fetch() */
+  loader?: LRUCacheLoader<K, V>;
+
+  /** What fetch() does when the loader fails, defaults to throw */
+  onLoaderError?: LoaderErrorBehavior<K, V>;
+
+  /** Backing store that set() and delete() are written to */
+  writer?: CacheWriter<K, V>;
+
+  /** When changes reach the writer, defaults to write-through */
+  writeMode?: WriteMode;
+
+  /** How long write-behind changes are held and coalesced before being written */
+  writeBehindDelayMs?: number;
+}
+
+/**
+ * Size limits of a cache
+ */
+export interface LRUCacheLimits {
+  /** Maximum number of items, undefined if only memory is limited */
+  maxItems: number | undefined;
+
+  /** Maximum memory usage in bytes */
+  maxMemoryBytes: number;
+}
+
+/**
+ * Options for a single set operation
+ */
+export interface LRUCacheSetOptions {
+  /** Time-to-live in milliseconds for this entry, overriding the default TTL */
+  ttlMs?: number;
+
+  /** How long this entry is served stale after its TTL, overriding the default window */
+  staleWhileRevalidateMs?: number;
+}
+
+/**
+ * Outcome of looking up several keys at once
+ */
+export interface LRUCacheGetManyResult<K, V> {
+  /** Values found, in the order their keys were requested */
+  hits: Map<K, V>;
+
+  /** Keys that were not found or have expired */
+  misses: K[];
+}
+
+/**
+ * Options for iterating over the cache
+ */
+export interface LRUCacheIterationOptions {
+  /** Iterate from least to most recently used instead of most to least */
+  reverse?: boolean;
+}
+
+/**
+ * A single entry in a cache snapshot
+ */
+export interface LRUCacheSnapshotEntry<K, V> {
+  key: K;
+  value: V;
+
+  /** Epoch milliseconds after which the entry expires, absent if it never does */
+  expiresAt?: number;
+
+  /** Epoch milliseconds after which the entry is no longer served, if later than expiresAt */
+  staleUntil?: number;
+}
+
+/**
+ * Portable copy of a cache's contents
+ */
+export interface LRUCacheSnapshot<K, V> {
+  /** Format version, currently always 1 */
+  version: number;
+
+  /** Entries ordered from least to most recently used */
+  entries: LRUCacheSnapshotEntry<K, V>[];
+}
+
+/**
+ * Options for streaming a snapshot
+ */
+export interface LRUCacheStreamOptions<V> {
+  /** Convert a value to JSON-compatible data when dumping */
+  serialize?: (value: V) => unknown;
+
+  /** Restore a value from the data produced by serialize when loading */
+  deserialize?: (data: unknown) => V;
+}
+
+/**
+ * When a cached entry stops being fresh and stops being served
+ */
+export interface LRUCacheExpiry {
+  /** Epoch milliseconds after which the entry is stale, undefined if it never expires */
+  expiresAt: number | undefined;
+
+  /** Epoch milliseconds after which the entry is no longer served */
+  staleUntil: number | undefined;
+}
+
+/** Version of the snapshot format written by dump() and dumpTo() */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Process-wide count of stores and reads, shared by every cache
+ * Each entry records the count of its latest store or read as accessedAt, so the
+ * recency of entries in different caches can be compared.
+ */
+let accessCount = 0;
+
+/**
+ * A load in progress for a key
+ */
+interface PendingLoad<V> {
+  promise: Promise<V | undefined>;
+
+  /** Aborted when the key changes during the load, so the loaded value is not stored */
+  controller: AbortController;
+}
+
+/**
+ * Internal representation of a cached entry
+ */
+interface CacheEntry<K, V> extends LRUCacheExpiry {
+  key: K;
+  value: V;
+
+  /** Options the entry was stored with, reused when it is refreshed */
+  options: LRUCacheSetOptions;
+
+  /** Memory charged for the entry, computed once when it is stored */
+  size: number;
+
+  /** Value of the process-wide access count when the entry was last used */
+  accessedAt: number;
+
+  /** Version token, changed on every write */
+  version: number;
 }
 
 /**
  * LRUCache implementation with O(1) operations for get/set
  * Uses a combination of a HashMap and DoublyLinkedList to achieve constant time complexity
+ * The list always tracks recency for iteration and snapshots; which entry is
+ * evicted can be delegated to another EvictionPolicy.
  */
 export class LRUCache<K, V> {
-  private readonly maxItems: number | undefined;
-  private readonly maxMemoryBytes: number;
+  private maxItems: number | undefined;
+  private maxMemoryBytes: number;
   private readonly sizeCalculator: ((value: V) => number) | undefined;
+  private readonly includeKeySize: boolean;
+  private readonly policy: EvictionPolicy<K> | undefined;
+  private readonly defaultTtlMs: number | undefined;
+  private readonly staleWhileRevalidateMs: number | undefined;
   private currentMemoryUsage: number = 0;
-  private cache: Map<K, ListNode<[K, V]>>;
-  private list: DoublyLinkedList<[K, V]>;
+  private cache: Map<K, ListNode<CacheEntry<K, V>>>;
+  private list: DoublyLinkedList<CacheEntry<K, V>>;
+  private readonly loader: LRUCacheLoader<K, V> | undefined;
+  private readonly onLoaderError: LoaderErrorBehavior<K, V>;
+  private readonly loads = new Map<K, PendingLoad<V>>();
+  private readonly writes: WriteQueue<K, V> | undefined;
+  private deferEviction: boolean = false;
+  private lastVersion: number = 0;
+  private counters: LRUCacheStats = LRUCache.emptyStats(0);
+  private readonly listeners: {
+    [E in keyof LRUCacheEvents<K, V>]: Set<LRUCacheEvents<K, V>[E]>;
+  } = { set: new Set(), dispose: new Set(), writeError: new Set() };
 
   // Default to half of available heap memory
   private static getDefaultMemoryLimit(): number {
@@ -35,7 +300,7 @@ export class LRUCache<K, V> {
    * Create a new LRUCache with the specified options
    * @param options Configuration options
    */
-  constructor(options: LRUCacheOptions<V>) {
+  constructor(options: LRUCacheOptions<V, K>) {
     this.maxItems = options.maxItems;
 
     // Use provided maxMemoryBytes or default to half of heap
@@ -45,18 +310,76 @@ export class LRUCache<K, V> {
         : LRUCache.getDefaultMemoryLimit();
 
     this.sizeCalculator = options.sizeCalculator;
+    this.includeKeySize = options.includeKeySize ?? false;
+    this.policy =
+      typeof options.evictionPolicy === 'object'
+        ? options.evictionPolicy
+        : createEvictionPolicy<K>(options.evictionPolicy ?? 'lru');
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs;
 
     // Validate options
-    if (this.maxItems !== undefined && this.maxItems <= 0) {
+    LRUCache.validateLimits(this.maxItems, this.maxMemoryBytes);
+
+    if (this.defaultTtlMs !== undefined) {
+      LRUCache.validateTtl(this.defaultTtlMs);
+    }
+
+    if (this.staleWhileRevalidateMs !== undefined) {
+      LRUCache.validateStaleWindow(this.staleWhileRevalidateMs);
+    }
+
+    this.cache = new Map<K, ListNode<CacheEntry<K, V>>>();
+    this.list = new DoublyLinkedList<CacheEntry<K, V>>();
+
+    if (options.onDispose) {
+      this.listeners.dispose.add(options.onDispose);
+    }
+
+    this.loader = options.loader;
+    this.onLoaderError = options.onLoaderError ?? 'throw';
+
+    if (options.writer) {
+      this.writes = new WriteQueue<K, V>(options.writer, {
+        mode: options.writeMode,
+        delayMs: options.writeBehindDelayMs,
+        onError: (error, key) => this.emit('writeError', error, key),
+      });
+    }
+  }
+
+  private static emptyStats(memoryUsage: number): LRUCacheStats {
+    return {
+      hits: 0,
+      misses: 0,
+      sets: 0,
+      overwrites: 0,
+      evictions: { capacity: 0, memory: 0, expired: 0 },
+      rejected: 0,
+      memoryHighWater: memoryUsage,
+    };
+  }
+
+  private static validateLimits(maxItems: number | undefined, maxMemoryBytes: number): void {
+    if (maxItems !== undefined && !(maxItems > 0)) {
       throw new Error('Maximum items must be a positive number');
     }
 
-    if (this.maxMemoryBytes <= 0) {
+    if (!(maxMemoryBytes > 0)) {
       throw new Error('Maximum memory must be a positive number');
     }
+  }
 
-    this.cache = new Map<K, ListNode<[K, V]>>();
-    this.list = new DoublyLinkedList<[K, V]>();
+  private static validateTtl(ttlMs: number): void {
+    if (Number.isNaN(ttlMs) || ttlMs <= 0) {
+      throw new Error('TTL must be a positive number');
+    }
+  }
+
+  private static validateStaleWindow(staleMs: number): void {
+    if (!Number.isFinite(staleMs) || staleMs <= 0) {
+      throw new Error('Stale window must be a positive finite number');
+    }
   }
 
   /**
@@ -73,6 +396,168 @@ export class LRUCache<K, V> {
     return this.currentMemoryUsage;
   }
 
+  /**
+   * Get the current size limits
+   */
+  get limits(): LRUCacheLimits {
+    return { maxItems: this.maxItems, maxMemoryBytes: this.maxMemoryBytes };
+  }
+
+  /**
+   * Change the size limits
+   * Shrinking evicts entries immediately, with the usual dispose events
+   * @param limits The limits to change; omitted ones keep their current value and an explicit
+   * undefined maxItems removes the item limit
+   */
+  resize(limits: Partial<LRUCacheLimits>): void {
+    const maxItems = 'maxItems' in limits ? limits.maxItems : this.maxItems;
+    const maxMemoryBytes = limits.maxMemoryBytes ?? this.maxMemoryBytes;
+
+    LRUCache.validateLimits(maxItems, maxMemoryBytes);
+
+    this.maxItems = maxItems;
+    this.maxMemoryBytes = maxMemoryBytes;
+    this.evictIfNeeded();
+  }
+
+  /**
+   * Count how many entries, across all caches in the process, have been used since the
+   * entry that would be evicted next
+   * Caches sharing a memory budget compare these ages to evict by global recency.
+   * @returns The age, or undefined if the cache is empty
+   */
+  victimAge(): number | undefined {
+    const victim = this.nextVictim();
+    return victim && accessCount - victim.value.accessedAt;
+  }
+
+  /**
+   * Evict the entry the eviction policy would remove next to free memory
+   * @returns True if an entry was evicted, false if the cache is empty
+   */
+  evictVictim(): boolean {
+    const victim = this.nextVictim();
+    if (!victim) return false;
+
+    this.removeNode(victim, 'memory');
+    return true;
+  }
+
+  /**
+   * Get a copy of the usage counters
+   */
+  stats(): LRUCacheStats {
+    return { ...this.counters, evictions: { ...this.counters.evictions } };
+  }
+
+  /**
+   * Zero the usage counters, starting the memory high-water mark from the current usage
+   */
+  resetStats(): void {
+    this.counters = LRUCache.emptyStats(this.currentMemoryUsage);
+  }
+
+  /**
+   * Subscribe to a cache event
+   * @param event The event name
+   * @param listener The listener to invoke
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof LRUCacheEvents<K, V>>(
+    event: E,
+    listener: LRUCacheEvents<K, V>[E],
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a cache event
+   * @param event The event name
+   * @param listener The listener previously passed to on()
+   */
+  off<E extends keyof LRUCacheEvents<K, V>>(event: E, listener: LRUCacheEvents<K, V>[E]): void {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit<E extends keyof LRUCacheEvents<K, V>>(
+    event: E,
+    ...args: Parameters<LRUCacheEvents<K, V>[E]>
+  ): void {
+    for (const listener of this.listeners[event]) {
+      (listener as (...params: Parameters<LRUCacheEvents<K, V>[E]>) => void)(...args);
+    }
+  }
+
+  /**
+   * Iterate over the keys in the cache from most to least recently used
+   * Does not affect recency and skips expired entries
+   * @param options Iteration order
+   */
+  *keys(options: LRUCacheIterationOptions = {}): IterableIterator<K> {
+    for (const entry of this.liveEntries(options)) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Iterate over the values in the cache from most to least recently used
+   * Does not affect recency and skips expired entries
+   * @param options Iteration order
+   */
+  *values(options: LRUCacheIterationOptions = {}): IterableIterator<V> {
+    for (const entry of this.liveEntries(options)) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Iterate over the key-value pairs in the cache from most to least recently used
+   * Does not affect recency and skips expired entries
+   * @param options Iteration order
+   */
+  *entries(options: LRUCacheIterationOptions = {}): IterableIterator<[K, V]> {
+    for (const entry of this.liveEntries(options)) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Call a function for every entry from most to least recently used
+   * Does not affect recency and skips expired entries
+   * @param callback Function called with each value and key
+   * @param options Iteration order
+   */
+  forEach(
+    callback: (value: V, key: K, cache: this) => void,
+    options: LRUCacheIterationOptions = {},
+  ): void {
+    for (const entry of this.liveEntries(options)) {
+      callback(entry.value, entry.key, this);
+    }
+  }
+
+  /**
+   * Iterate over the key-value pairs in the cache from most to least recently used
+   */
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Walk the list in the requested order, skipping expired entries without removing them
+   */
+  private *liveEntries(options: LRUCacheIterationOptions): IterableIterator<CacheEntry<K, V>> {
+    const now = Date.now();
+    const entries = options.reverse ? this.list.valuesReversed() : this.list.values();
+
+    for (const entry of entries) {
+      if (!this.isExpired(entry, now)) {
+        yield entry;
+      }
+    }
+  }
+
   /**
    * Check if the cache is empty
    */
@@ -82,149 +567,823 @@ export class LRUCache<K, V> {
 
   /**
    * Check if the cache contains a key
+   * Expired entries are treated as absent and removed
    * @param key The key to check
    */
   has(key: K): boolean {
-    return this.cache.has(key);
+    return this.getLiveNode(key) !== undefined;
   }
 
   /**
    * Get a value from the cache
+   * A stale value is returned as is while the loader refreshes it in the background
    * @param key The key to retrieve
-   * @returns The value or undefined if not found
+   * @returns The value or undefined if not found or expired
    */
   get(key: K): V | undefined {
-    const node = this.cache.get(key);
+    const node = this.getLiveNode(key);
 
     if (!node) {
+      this.counters.misses++;
       return undefined;
     }
 
+    this.counters.hits++;
+
     // Move to front (most recently used)
     this.list.moveToFront(node);
+    this.policy?.touch(key);
+    node.value.accessedAt = ++accessCount;
+
+    if (this.isEntryStale(node.value)) {
+      this.refresh(node.value);
+    }
+
+    return node.value.value;
+  }
+
+  /**
+   * Get a value without marking it as recently used or refreshing it if stale
+   * @param key The key to retrieve
+   * @returns The value or undefined if not found or expired
+   */
+  peek(key: K): V | undefined {
+    return this.getLiveNode(key)?.value.value;
+  }
+
+  /**
+   * Get several values at once, marking each found key as recently used
+   * @param keys The keys to retrieve
+   * @returns The values found and the keys that were not
+   */
+  getMany(keys: Iterable<K>): LRUCacheGetManyResult<K, V> {
+    const result: LRUCacheGetManyResult<K, V> = { hits: new Map(), misses: [] };
+
+    for (const key of keys) {
+      const value = this.get(key);
+
+      if (value === undefined) {
+        result.misses.push(key);
+      } else {
+        result.hits.set(key, value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the version token of a key without marking it as recently used
+   * The version changes whenever the key is written, so passing it to compareAndSet()
+   * detects writes made since it was read.
+   * @param key The key to inspect
+   * @returns The version or undefined if not found or expired
+   */
+  getVersion(key: K): number | undefined {
+    return this.getLiveNode(key)?.value.version;
+  }
+
+  /**
+   * Get a value from the cache, loading it with the loader on a miss
+   * Concurrent fetches of the same missing key share a single load, and stale
+   * values are returned immediately like get() does
+   * @param key The key to retrieve
+   * @param options Options for storing the loaded value, such as TTL
+   * @returns The cached or loaded value, or undefined if the key does not exist
+   * @throws The loader's error, unless onLoaderError says otherwise
+   */
+  async fetch(key: K, options: LRUCacheSetOptions = {}): Promise<V | undefined> {
+    const cached = this.get(key);
+    const loader = this.loader;
 
-    return node.value[1];
+    if (cached !== undefined || !loader) {
+      return cached;
+    }
+
+    const load =
+      this.loads.get(key) ??
+      this.startLoad(key, (signal) =>
+        this.loadKey(loader, key, options, { signal, staleValue: undefined }),
+      );
+
+    return load.promise;
   }
 
   /**
-   * Calculate the size of a value in bytes
+   * Get a value, or store the one produced by a factory if the key is missing
+   * Concurrent calls for a missing key share one factory call, as fetch() does for
+   * the loader. If the key is set or deleted while the factory runs, its value is
+   * returned to the callers but not stored.
+   * @param key The key to retrieve
+   * @param factory Function producing the value, synchronously or not
+   * @param options Per-entry options for the produced value
+   * @returns The cached or produced value
    */
-  private calculateSize(value: V): number {
-    if (this.sizeCalculator) {
-      return this.sizeCalculator(value);
+  async getOrSet(
+    key: K,
+    factory: (key: K) => V | Promise<V>,
+    options: LRUCacheSetOptions = {},
+  ): Promise<V> {
+    const cached = this.get(key);
+
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.loads.get(key);
+    if (pending) {
+      // A loader may find nothing, in which case the factory still has to run
+      return (await pending.promise) ?? this.getOrSet(key, factory, options);
     }
 
-    if (value === null || value === undefined) return 0;
-    if (typeof value === 'boolean') return 4;
-    if (typeof value === 'number') return 8;
-    if (typeof value === 'string') return value.length * 2;
-    if (value instanceof Date) return 8;
-    if (Array.isArray(value)) return 40 + value.length * 8;
+    const load = this.startLoad(key, async (signal) => {
+      const value = await factory(key);
 
-    if (typeof value === 'object') {
-      try {
-        return Buffer.byteLength(JSON.stringify(value), 'utf8');
-      } catch {
-        return 1024;
+      if (!signal.aborted) {
+        this.store(key, value, options);
+        this.writes?.write(key, value);
       }
+
+      return value;
+    });
+
+    return (await load.promise) as V;
+  }
+
+  /**
+   * Wait until every set and delete has reached the writer
+   * Held write-behind changes are sent immediately
+   * @throws The first error raised by the writer since the previous flush
+   */
+  flush(): Promise<void> {
+    return this.writes?.flush() ?? Promise.resolve();
+  }
+
+  /**
+   * Get the number of sets and deletes the writer failed since the previous flush
+   */
+  get failedWrites(): number {
+    return this.writes?.failedWrites ?? 0;
+  }
+
+  /**
+   * Reload a stale entry in the background, unless a load is already running
+   * Failures leave the stale value in place until it hard-expires
+   */
+  private refresh(entry: CacheEntry<K, V>): void {
+    if (!this.loader || this.loads.has(entry.key)) {
+      return;
     }
 
-    return 100;
+    const loader = this.loader;
+    const load = this.startLoad(entry.key, (signal) =>
+      this.loadKey(loader, entry.key, entry.options, { signal, staleValue: entry.value }),
+    );
+    load.promise.catch(() => undefined);
   }
 
   /**
-   * Evict items until we're under the memory and item limits
+   * Run a load for a key, registering it so concurrent callers can share it and
+   * writes to the key can abort it
    */
-  private evictIfNeeded(requiredSpace: number = 0): void {
-    // Check if we need to evict based on item count
-    const needToEvictItems = this.maxItems !== undefined && this.cache.size >= this.maxItems;
+  private startLoad(key: K, run: (signal: AbortSignal) => Promise<V | undefined>): PendingLoad<V> {
+    const controller = new AbortController();
+    const load: PendingLoad<V> = { promise: run(controller.signal), controller };
 
-    // Check if we need to evict based on memory usage
-    const needToEvictMemory = this.currentMemoryUsage + requiredSpace > this.maxMemoryBytes;
+    this.loads.set(key, load);
+    void load.promise
+      .finally(() => {
+        if (this.loads.get(key) === load) this.loads.delete(key);
+      })
+      .catch(() => undefined);
 
-    while ((needToEvictItems || needToEvictMemory) && !this.isEmpty()) {
-      const lastNode = this.list.getLast();
-      if (!lastNode) break;
+    return load;
+  }
 
-      const [oldKey, oldValue] = lastNode.value;
-      this.cache.delete(oldKey);
-      this.list.remove(lastNode);
+  private async loadKey(
+    loader: LRUCacheLoader<K, V>,
+    key: K,
+    options: LRUCacheSetOptions,
+    context: LRUCacheLoaderContext<V>,
+  ): Promise<V | undefined> {
+    let value: V | undefined;
 
-      this.currentMemoryUsage -= this.calculateSize(oldValue);
+    try {
+      value = await loader(key, context);
+    } catch (error) {
+      if (this.onLoaderError === 'throw') throw error;
+      return this.onLoaderError === 'ignore' ? undefined : this.onLoaderError(error, key);
+    }
+
+    // A set or delete during the load is newer than what was loaded
+    if (value !== undefined && !context.signal.aborted) {
+      this.store(key, value, options);
+    }
+
+    return value;
+  }
+
+  /**
+   * Get the remaining time-to-live of an entry without affecting its recency
+   * @param key The key to inspect
+   * @returns Remaining milliseconds, 0 if the entry is stale, Infinity if it never
+   * expires, or undefined if the key is not in the cache
+   */
+  getRemainingTtl(key: K): number | undefined {
+    const node = this.getLiveNode(key);
 
-      // Check if we can stop evicting
-      const underItemLimit = !this.maxItems || this.cache.size < this.maxItems;
-      const underMemoryLimit = this.currentMemoryUsage + requiredSpace <= this.maxMemoryBytes;
+    if (!node) {
+      return undefined;
+    }
 
-      if ((underItemLimit && !needToEvictMemory) || (underMemoryLimit && !needToEvictItems)) {
-        break;
+    const { expiresAt } = node.value;
+    return expiresAt === undefined ? Infinity : Math.max(0, expiresAt - Date.now());
+  }
+
+  /**
+   * Get when an entry stops being fresh and stops being served, without affecting its recency
+   * @param key The key to inspect
+   * @returns The expiry times, or undefined if the key is not in the cache
+   */
+  getExpiry(key: K): LRUCacheExpiry | undefined {
+    const node = this.getLiveNode(key);
+
+    if (!node) {
+      return undefined;
+    }
+
+    const { expiresAt, staleUntil } = node.value;
+    return { expiresAt, staleUntil };
+  }
+
+  /**
+   * Check whether an entry is past its TTL but still being served
+   * @param key The key to inspect
+   * @returns True if the entry is stale, false if it is fresh or not in the cache
+   */
+  isStale(key: K): boolean {
+    const node = this.getLiveNode(key);
+    return node !== undefined && this.isEntryStale(node.value);
+  }
+
+  /**
+   * Remove all hard-expired entries from the cache, releasing their memory
+   * Stale entries are kept
+   * @returns The number of entries removed
+   */
+  purgeExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    let node = this.list.getLast();
+
+    while (node) {
+      const prev = node.prev;
+      if (this.isExpired(node.value, now)) {
+        this.removeNode(node, 'expired');
+        removed++;
       }
+      node = prev;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Copy the live entries of the cache, including their expiry times
+   * Does not affect recency
+   * @returns A JSON-serializable snapshot if the keys and values are
+   */
+  dump(): LRUCacheSnapshot<K, V> {
+    const entries: LRUCacheSnapshotEntry<K, V>[] = [];
+
+    for (const { key, value, expiresAt, staleUntil } of this.liveEntries({ reverse: true })) {
+      const entry: LRUCacheSnapshotEntry<K, V> = { key, value };
+
+      if (expiresAt !== undefined) entry.expiresAt = expiresAt;
+      if (staleUntil !== expiresAt) entry.staleUntil = staleUntil;
+
+      entries.push(entry);
+    }
+
+    return { version: SNAPSHOT_VERSION, entries };
+  }
+
+  /**
+   * Restore entries from a snapshot
+   * Entries are set in order, so the snapshot's recency order is preserved and
+   * the least recently used entries are evicted first if the limits are smaller.
+   * Restored entries become more recent than any already in the cache.
+   * @param snapshot Output of dump()
+   * @returns The number of entries restored, excluding any that already expired
+   * @throws Error if the snapshot is malformed
+   */
+  load(snapshot: LRUCacheSnapshot<K, V>): number {
+    LRUCache.validateSnapshotHeader(snapshot);
+
+    if (!Array.isArray(snapshot.entries)) {
+      throw new Error('Invalid snapshot: entries must be an array');
+    }
+
+    let restored = 0;
+    for (const entry of snapshot.entries) {
+      if (this.restore(entry)) restored++;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Write a snapshot to a stream as JSON lines: a header followed by one entry per line
+   * The entries are captured up front; the stream is left open
+   * @param stream The stream to write to
+   * @param options How to serialize values
+   * @returns The number of entries written
+   */
+  async dumpTo(stream: Writable, options: LRUCacheStreamOptions<V> = {}): Promise<number> {
+    const { version, entries } = this.dump();
+    const serialize = options.serialize;
+
+    const lines = serialize
+      ? entries.map((entry) => ({ ...entry, value: serialize(entry.value) }))
+      : entries;
+
+    return (await writeJsonLines(stream, [{ version }, ...lines])) - 1;
+  }
+
+  /**
+   * Restore entries from a stream written by dumpTo(), one line at a time
+   * @param stream The stream to read from
+   * @param options How to deserialize values
+   * @returns The number of entries restored, excluding any that already expired
+   * @throws Error if the stream is not a valid snapshot
+   */
+  async loadFrom(stream: Readable, options: LRUCacheStreamOptions<V> = {}): Promise<number> {
+    const deserialize = options.deserialize ?? ((data: unknown) => data as V);
+    let header = true;
+    let restored = 0;
+
+    for await (const line of readJsonLines(stream)) {
+      if (header) {
+        LRUCache.validateSnapshotHeader(line);
+        header = false;
+        continue;
+      }
+
+      const entry = line as LRUCacheSnapshotEntry<K, unknown>;
+      if (this.restore({ ...entry, value: deserialize(entry.value) })) restored++;
+    }
+
+    if (header) {
+      throw new Error('Invalid snapshot: missing header');
+    }
+
+    return restored;
+  }
+
+  /**
+   * Set a snapshot entry with its original expiry times
+   * @returns False if the entry has already hard-expired
+   */
+  private restore(entry: LRUCacheSnapshotEntry<K, V>): boolean {
+    if (typeof entry !== 'object' || entry === null || !('key' in entry)) {
+      throw new Error('Invalid snapshot: malformed entry');
+    }
+
+    const { key, value, expiresAt, staleUntil = expiresAt } = entry;
+    if (
+      (expiresAt !== undefined && typeof expiresAt !== 'number') ||
+      (staleUntil !== undefined && typeof staleUntil !== 'number')
+    ) {
+      throw new Error('Invalid snapshot: malformed entry');
+    }
+
+    if (staleUntil !== undefined && staleUntil <= Date.now()) {
+      return false;
+    }
+
+    // Refreshes of a restored entry fall back to the cache's defaults
+    this.store(key, value, {}, { expiresAt, staleUntil });
+    return true;
+  }
+
+  private static validateSnapshotHeader(header: unknown): void {
+    const version = (header as { version?: unknown } | null)?.version;
+
+    if (version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${String(version)}`);
+    }
+  }
+
+  /**
+   * Abort a running load of a key, as its result is now outdated
+   */
+  private supersedeLoad(key: K): void {
+    this.loads.get(key)?.controller.abort();
+    this.loads.delete(key);
+  }
+
+  /**
+   * Look up a node, removing it if it has hard-expired
+   */
+  private getLiveNode(key: K): ListNode<CacheEntry<K, V>> | undefined {
+    const node = this.cache.get(key);
+
+    if (node && this.isExpired(node.value)) {
+      this.removeNode(node, 'expired');
+      return undefined;
+    }
+
+    return node;
+  }
+
+  private isExpired(entry: CacheEntry<K, V>, now: number = Date.now()): boolean {
+    return entry.staleUntil !== undefined && entry.staleUntil <= now;
+  }
+
+  private isEntryStale(entry: CacheEntry<K, V>, now: number = Date.now()): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= now;
+  }
+
+  /**
+   * Compute the expiry timestamps for an entry being written now
+   */
+  private resolveExpiry(options: LRUCacheSetOptions): LRUCacheExpiry {
+    const ttl = options.ttlMs ?? this.defaultTtlMs;
+    const staleMs = options.staleWhileRevalidateMs ?? this.staleWhileRevalidateMs;
+
+    if (staleMs !== undefined) {
+      LRUCache.validateStaleWindow(staleMs);
+    }
+
+    if (ttl === undefined) {
+      return { expiresAt: undefined, staleUntil: undefined };
     }
+
+    LRUCache.validateTtl(ttl);
+    if (ttl === Infinity) {
+      return { expiresAt: undefined, staleUntil: undefined };
+    }
+
+    const expiresAt = Date.now() + ttl;
+    return { expiresAt, staleUntil: expiresAt + (staleMs ?? 0) };
+  }
+
+  /**
+   * Unlink a node from the list and map, release its memory and notify listeners
+   * @param countEviction False when the removal is already counted otherwise, e.g. as a rejection
+   */
+  private removeNode(
+    node: ListNode<CacheEntry<K, V>>,
+    reason: DisposeReason,
+    countEviction: boolean = true,
+  ): void {
+    const { key, value, size } = node.value;
+
+    this.currentMemoryUsage -= size;
+    this.list.remove(node);
+    this.cache.delete(key);
+    this.policy?.remove(key, reason === 'capacity' || reason === 'memory');
+
+    if (countEviction && (reason === 'capacity' || reason === 'memory' || reason === 'expired')) {
+      this.counters.evictions[reason]++;
+    }
+
+    this.emit('dispose', key, value, reason);
+  }
+
+  /**
+   * Calculate the size of an entry in bytes
+   */
+  private calculateSize(key: K, value: V): number {
+    const valueSize = this.sizeCalculator ? this.sizeCalculator(value) : estimateSize(value);
+    return this.includeKeySize ? valueSize + estimateSize(key) : valueSize;
+  }
+
+  /**
+   * Evict items until the given number of new items and bytes fit within the limits
+   */
+  private evictIfNeeded(requiredSpace: number = 0, requiredItems: number = 0): void {
+    while (!this.isEmpty()) {
+      const overItems =
+        this.maxItems !== undefined && this.cache.size + requiredItems > this.maxItems;
+      const overMemory = this.currentMemoryUsage + requiredSpace > this.maxMemoryBytes;
+
+      if (!overItems && !overMemory) break;
+
+      this.removeNode(this.nextVictim()!, overItems ? 'capacity' : 'memory');
+    }
+  }
+
+  /**
+   * Find the node the eviction policy wants to evict next
+   * Falls back to the least recently used node if the policy has no valid choice
+   * @param exclude A node that must not be evicted, such as the one being written
+   */
+  private nextVictim(exclude?: ListNode<CacheEntry<K, V>>): ListNode<CacheEntry<K, V>> | undefined {
+    const key = this.policy?.victim();
+    const node = key === undefined ? undefined : this.cache.get(key);
+
+    if (node && node !== exclude) {
+      return node;
+    }
+
+    const last = this.list.getLast() ?? undefined;
+    return last === exclude ? (last?.prev ?? undefined) : last;
   }
 
   /**
    * Set a value in the cache
+   * @param key The key to set
+   * @param value The value to store
+   * @param options Per-entry options such as TTL
+   */
+  set(key: K, value: V, options: LRUCacheSetOptions = {}): this {
+    this.supersedeLoad(key);
+    this.store(key, value, options);
+    this.writes?.write(key, value);
+    return this;
+  }
+
+  /**
+   * Set a value only if the key has not been written since its version was read
+   * @param key The key to set
+   * @param expectedVersion Version from getVersion(), or undefined to set only if the key is absent
+   * @param value The value to store
+   * @param options Per-entry options such as TTL
+   * @returns True if the value was stored, false if the version no longer matches or the
+   * value is too large to store
+   */
+  compareAndSet(
+    key: K,
+    expectedVersion: number | undefined,
+    value: V,
+    options: LRUCacheSetOptions = {},
+  ): boolean {
+    if (this.getVersion(key) !== expectedVersion) {
+      return false;
+    }
+
+    this.set(key, value, options);
+
+    const version = this.getVersion(key);
+    return version !== undefined && version !== expectedVersion;
+  }
+
+  /**
+   * Replace a value with the result of a function of the current value
+   * The function runs synchronously, so nothing else can write the key in between
+   * @param key The key to update
+   * @param fn Function receiving the current value, or undefined if the key is absent, and
+   * returning the new value, or undefined to delete the key
+   * @param options Per-entry options such as TTL, defaulting to those the entry was stored with
+   * @returns The new value
    */
-  set(key: K, value: V): this {
-    const valueSize = this.calculateSize(value);
+  update(
+    key: K,
+    fn: (current: V | undefined) => V | undefined,
+    options?: LRUCacheSetOptions,
+  ): V | undefined {
+    const entry = this.getLiveNode(key)?.value;
+    const next = fn(entry?.value);
+
+    if (next === undefined) {
+      this.delete(key);
+    } else {
+      this.set(key, next, options ?? entry?.options);
+    }
+
+    return next;
+  }
+
+  /**
+   * Add to a numeric value, treating a missing key as 0
+   * @param key The key to increment
+   * @param delta The amount to add, negative to decrement
+   * @param options Per-entry options such as TTL, defaulting to those the entry was stored with
+   * @returns The new value
+   */
+  increment(
+    this: LRUCache<K, number>,
+    key: K,
+    delta: number = 1,
+    options?: LRUCacheSetOptions,
+  ): number {
+    if (!Number.isFinite(delta)) {
+      throw new Error('Delta must be a finite number');
+    }
+
+    return this.update(key, (current) => (current ?? 0) + delta, options)!;
+  }
+
+  /**
+   * Set several values, evicting once after all of them are stored rather than per value
+   * The limits may be exceeded while the values are being stored
+   * @param entries The key-value pairs to store
+   * @param options Per-entry options such as TTL, applied to every entry
+   */
+  setMany(entries: Iterable<readonly [K, V]>, options: LRUCacheSetOptions = {}): this {
+    const expiry = this.resolveExpiry(options);
+    this.deferEviction = true;
+
+    try {
+      for (const [key, value] of entries) {
+        this.supersedeLoad(key);
+        this.store(key, value, options, expiry);
+        this.writes?.write(key, value);
+      }
+    } finally {
+      this.deferEviction = false;
+      this.evictIfNeeded();
+      this.recordMemoryHighWater();
+    }
+
+    return this;
+  }
+
+  /**
+   * Store a value without sending it to the writer
+   */
+  private store(
+    key: K,
+    value: V,
+    options: LRUCacheSetOptions,
+    expiry: LRUCacheExpiry = this.resolveExpiry(options),
+  ): void {
+    const size = this.calculateSize(key, value);
 
     // Update existing item
     if (this.cache.has(key)) {
       const node = this.cache.get(key)!;
-      const oldValue = node.value[1];
+      const oldValue = node.value.value;
+
+      // The new value can never fit, so drop the stale one rather than keep serving it
+      if (size > this.maxMemoryBytes) {
+        this.counters.rejected++;
+        this.removeNode(node, 'memory', false);
+        return;
+      }
 
-      this.currentMemoryUsage -= this.calculateSize(oldValue);
-      this.currentMemoryUsage += valueSize;
+      this.currentMemoryUsage += size - node.value.size;
 
-      node.value = [key, value];
+      node.value = {
+        key,
+        value,
+        ...expiry,
+        options,
+        size,
+        accessedAt: ++accessCount,
+        version: ++this.lastVersion,
+      };
       this.list.moveToFront(node);
-      return this;
+      this.policy?.touch(key);
+
+      if (oldValue !== value) {
+        this.emit('dispose', key, oldValue, 'overwrite');
+      }
+
+      // A larger value may push us over the memory limit
+      while (!this.deferEviction && this.currentMemoryUsage > this.maxMemoryBytes) {
+        const victim = this.nextVictim(node);
+        if (!victim) break;
+        this.removeNode(victim, 'memory');
+      }
+
+      this.recordSet(true);
+      this.emit('set', key, value);
+      return;
     }
 
     // Skip if item is too large
-    if (valueSize > this.maxMemoryBytes) {
-      return this;
+    if (size > this.maxMemoryBytes) {
+      this.counters.rejected++;
+      return;
     }
 
     // Make room for new item
-    this.evictIfNeeded(valueSize);
+    if (!this.deferEviction) {
+      this.evictIfNeeded(size, 1);
+    }
 
     // Add new item
-    const newNode = this.list.addFront([key, value]);
+    const newNode = this.list.addFront({
+      key,
+      value,
+      ...expiry,
+      options,
+      size,
+      accessedAt: ++accessCount,
+      version: ++this.lastVersion,
+    });
     this.cache.set(key, newNode);
+    this.policy?.insert(key);
 
-    this.currentMemoryUsage += valueSize;
+    this.currentMemoryUsage += size;
 
-    return this;
+    this.recordSet(false);
+    this.emit('set', key, value);
+  }
+
+  private recordSet(overwrite: boolean): void {
+    this.counters.sets++;
+    if (overwrite) this.counters.overwrites++;
+
+    // Usage only settles once a batch has been evicted down to the limits
+    if (!this.deferEviction) {
+      this.recordMemoryHighWater();
+    }
+  }
+
+  private recordMemoryHighWater(): void {
+    this.counters.memoryHighWater = Math.max(
+      this.counters.memoryHighWater,
+      this.currentMemoryUsage,
+    );
   }
 
   /**
    * Remove an item from the cache
+   * The delete is sent to the writer even if the key is not cached
    * @param key The key to remove
    * @returns True if the item was removed, false if it didn't exist
    */
   delete(key: K): boolean {
-    const node = this.cache.get(key);
+    const node = this.getLiveNode(key);
+
+    this.supersedeLoad(key);
+    this.writes?.delete(key);
 
     if (!node) {
       return false;
     }
 
-    // Update memory usage
-    this.currentMemoryUsage -= this.calculateSize(node.value[1]);
+    this.removeNode(node, 'delete');
+    return true;
+  }
 
-    this.list.remove(node);
-    return this.cache.delete(key);
+  /**
+   * Remove several items from the cache
+   * @param keys The keys to remove
+   * @returns The number of items removed
+   */
+  deleteMany(keys: Iterable<K>): number {
+    let deleted = 0;
+
+    for (const key of keys) {
+      if (this.delete(key)) deleted++;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Remove every item matching a predicate
+   * @param predicate Function called with each value and key, returning true to remove it
+   * @returns The number of items removed
+   */
+  deleteWhere(predicate: (value: V, key: K) => boolean): number {
+    const keys: K[] = [];
+
+    // Collect first, since deleting while walking the list would skip entries
+    for (const entry of this.liveEntries({})) {
+      if (predicate(entry.value, entry.key)) keys.push(entry.key);
+    }
+
+    return this.deleteMany(keys);
+  }
+
+  /**
+   * Remove every item whose key starts with a prefix
+   * @param prefix The key prefix, e.g. 'user:42:'
+   * @returns The number of items removed
+   */
+  deletePrefix(this: LRUCache<string, V>, prefix: string): number {
+    return this.deleteWhere((_value, key) => key.startsWith(prefix));
   }
 
   /**
    * Clear all items from the cache
+   * Like evictions, this only affects the cache and is not sent to the writer
    */
   clear(): void {
+    const oldList = this.list;
+
+    for (const load of this.loads.values()) {
+      load.controller.abort();
+    }
+    this.loads.clear();
+
     this.cache.clear();
+    this.policy?.clear();
     // Create a new list instead of trying to clear the existing one
-    this.list = new DoublyLinkedList<[K, V]>();
+    this.list = new DoublyLinkedList<CacheEntry<K, V>>();
     // Reset memory usage
     this.currentMemoryUsage = 0;
+
+    // Notify listeners once the cache is already empty
+    if (this.listeners.dispose.size > 0) {
+      for (const entry of oldList.valuesReversed()) {
+        this.emit('dispose', entry.key, entry.value, 'clear');
+      }
+    }
   }
 }
@@ -0,0 +1,211 @@
+/**
+ * Causal relationship between two vector clocks
+ */
+export type ClockOrdering = 'before' | 'after' | 'equal' | 'concurrent';
+
+/**
+ * Counter for a single node together with the wall-clock time it was last incremented
+ */
+export interface VectorClockEntry {
+  counter: number;
+  timestamp: number;
+}
+
+/**
+ * Serialized form of a VectorClock, keyed by node id
+ */
+export type VectorClockJSON = Record<string, VectorClockEntry>;
+
+/**
+ * Options for pruning node entries from a VectorClock
+ */
+export interface VectorClockPruneOptions {
+  /** Keep at most this many entries, dropping the least recently incremented ones */
+  maxEntries?: number;
+
+  /** Drop entries that have not been incremented for this many milliseconds */
+  maxAgeMs?: number;
+}
+
+/**
+ * Immutable vector clock used to track causality between versions of a value
+ * Every operation returns a new clock and leaves the original untouched
+ */
+export class VectorClock {
+  private readonly entries: ReadonlyMap<string, VectorClockEntry>;
+
+  /**
+   * Create a new VectorClock
+   * @param entries Initial node entries
+   */
+  constructor(entries: Iterable<[string, VectorClockEntry]> = []) {
+    this.entries = new Map(entries);
+  }
+
+  /**
+   * Get the number of nodes tracked by the clock
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the ids of all nodes tracked by the clock
+   */
+  get nodeIds(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Get the counter for a node
+   * @param nodeId The node to look up
+   * @returns The counter, or 0 if the node is not tracked
+   */
+  get(nodeId: string): number {
+    return this.entries.get(nodeId)?.counter ?? 0;
+  }
+
+  /**
+   * Record a new event on a node
+   * @param nodeId The node performing the event
+   * @param now Wall-clock time of the event
+   * @returns A new clock with the node's counter incremented
+   */
+  increment(nodeId: string, now: number = Date.now()): VectorClock {
+    const entries = new Map(this.entries);
+    entries.set(nodeId, { counter: this.get(nodeId) + 1, timestamp: now });
+    return new VectorClock(entries);
+  }
+
+  /**
+   * Combine two clocks by taking the maximum counter for every node
+   * @param other The clock to merge with
+   * @returns A new clock that descends from both inputs
+   */
+  merge(other: VectorClock): VectorClock {
+    const entries = new Map(this.entries);
+
+    for (const [nodeId, theirs] of other.entries) {
+      const ours = entries.get(nodeId);
+
+      if (
+        !ours ||
+        theirs.counter > ours.counter ||
+        (theirs.counter === ours.counter && theirs.timestamp > ours.timestamp)
+      ) {
+        entries.set(nodeId, theirs);
+      }
+    }
+
+    return new VectorClock(entries);
+  }
+
+  /**
+   * Determine the causal ordering of this clock relative to another
+   * @param other The clock to compare against
+   * @returns 'before' if this clock happened before the other, 'after' if it
+   * happened after, 'equal' if they are identical and 'concurrent' otherwise
+   */
+  compare(other: VectorClock): ClockOrdering {
+    let less = false;
+    let greater = false;
+
+    for (const nodeId of new Set([...this.entries.keys(), ...other.entries.keys()])) {
+      const ours = this.get(nodeId);
+      const theirs = other.get(nodeId);
+
+      if (ours < theirs) less = true;
+      if (ours > theirs) greater = true;
+
+      if (less && greater) return 'concurrent';
+    }
+
+    if (less) return 'before';
+    if (greater) return 'after';
+    return 'equal';
+  }
+
+  /**
+   * Check whether this clock has seen every event the other clock has
+   * @param other The clock to compare against
+   */
+  descends(other: VectorClock): boolean {
+    const ordering = this.compare(other);
+    return ordering === 'after' || ordering === 'equal';
+  }
+
+  /**
+   * Drop old node entries to keep the clock bounded
+   * Pruning loses causal information, so pruned clocks may compare as
+   * concurrent where the full clocks would not
+   * @param options Age and size limits
+   * @param now Current wall-clock time
+   * @returns A new clock containing only the retained entries
+   */
+  prune(options: VectorClockPruneOptions, now: number = Date.now()): VectorClock {
+    const { maxEntries, maxAgeMs } = options;
+
+    if (maxEntries !== undefined && maxEntries < 0) {
+      throw new Error('Maximum entries must not be negative');
+    }
+
+    let entries = [...this.entries];
+
+    if (maxAgeMs !== undefined) {
+      entries = entries.filter(([, entry]) => now - entry.timestamp <= maxAgeMs);
+    }
+
+    if (maxEntries !== undefined && entries.length > maxEntries) {
+      entries = entries.sort(([, a], [, b]) => b.timestamp - a.timestamp).slice(0, maxEntries);
+    }
+
+    return new VectorClock(entries);
+  }
+
+  /**
+   * Serialize the clock to a plain object
+   */
+  toJSON(): VectorClockJSON {
+    const json: VectorClockJSON = {};
+
+    for (const [nodeId, entry] of this.entries) {
+      json[nodeId] = { counter: entry.counter, timestamp: entry.timestamp };
+    }
+
+    return json;
+  }
+
+  /**
+   * Create a clock from its serialized form
+   * @param json A value produced by toJSON(), or its JSON string
+   */
+  static fromJSON(json: VectorClockJSON | string): VectorClock {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Invalid vector clock: expected an object');
+    }
+
+    const entries: Array<[string, VectorClockEntry]> = [];
+
+    for (const [nodeId, entry] of Object.entries(parsed)) {
+      const { counter, timestamp } = (entry ?? {}) as Partial<VectorClockEntry>;
+
+      if (!Number.isInteger(counter) || counter! < 0 || !Number.isFinite(timestamp)) {
+        throw new Error(`Invalid vector clock entry for node "${nodeId}"`);
+      }
+
+      entries.push([nodeId, { counter: counter!, timestamp: timestamp! }]);
+    }
+
+    return new VectorClock(entries);
+  }
+}
+
+/**
+ * Merge the clocks of several versions so the result supersedes all of them
+ * @param versions Anything carrying a clock, such as the siblings of a key
+ */
+export function mergeClocks(versions: ReadonlyArray<{ clock: VectorClock }>): VectorClock {
+  return versions.reduce((clock, version) => clock.merge(version.clock), new VectorClock());
+}
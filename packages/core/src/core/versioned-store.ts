@@ -0,0 +1,594 @@
+import type { Readable, Writable } from 'stream';
+import { MerkleRange, MerkleTree } from '../components/merkle-tree';
+import { estimateSize } from '../components/size-estimator';
+import { PNCounter, PNCounterJSON } from '../crdt/pn-counter';
+import { ConflictResolver, KeepAllSiblingsResolver } from './conflict-resolver';
+import { HybridLogicalClock, HybridTimestamp } from './hybrid-clock';
+import { LRUCache, LRUCacheOptions, LRUCacheSnapshot } from './lru-cache';
+import { mergeClocks, VectorClock, VectorClockJSON } from './vector-clock';
+
+/**
+ * A value tagged with the vector clock and hybrid timestamp of the write that produced it
+ */
+export interface Versioned<V> {
+  value: V;
+  clock: VectorClock;
+  timestamp: HybridTimestamp;
+
+  /** Marks a tombstone left by a delete; its value is undefined */
+  deleted?: boolean;
+}
+
+/**
+ * Serialized form of a Versioned value, suitable for sending between nodes
+ */
+export interface VersionedJSON<V> {
+  value: V;
+  clock: VectorClockJSON;
+  timestamp: HybridTimestamp;
+  deleted?: boolean;
+}
+
+/**
+ * Opaque token summarising the versions a reader has seen
+ * Pass it back on the next write to supersede those versions
+ */
+export type CausalContext = string;
+
+/**
+ * Result of reading a key from a VersionedStore
+ */
+export interface VersionedResult<V> {
+  /** Values of all live sibling versions */
+  values: V[];
+
+  /** All live sibling versions with their clocks */
+  siblings: Versioned<V>[];
+
+  /** Causal context covering every sibling, including tombstones */
+  context: CausalContext;
+}
+
+/**
+ * Options for configuring the VersionedStore
+ */
+export interface VersionedStoreOptions<V> extends Pick<
+  LRUCacheOptions<V>,
+  'maxItems' | 'maxMemoryBytes' | 'sizeCalculator' | 'defaultTtlMs'
+> {
+  /** Id of the node performing local writes */
+  nodeId: string;
+
+  /** Strategy applied when concurrent versions meet, defaults to keeping all siblings */
+  conflictResolver?: ConflictResolver<V>;
+
+  /** Depth of the Merkle tree used to compare replicas, must match across the cluster */
+  merkleDepth?: number;
+
+  /**
+   * How long tombstones are kept before they are garbage-collected, defaults to one day
+   * Must be long enough for deletes to reach every replica, or deleted keys can resurrect
+   */
+  tombstoneGraceMs?: number;
+}
+
+/**
+ * Key-value store that keeps a vector clock on every value
+ * Writes that descend from the stored versions replace them, while
+ * concurrent writes are kept side by side as siblings. Deletes leave a
+ * tombstone carrying the delete's clock, so replicas that still hold the
+ * old value cannot resurrect it; tombstones expire after a grace period.
+ */
+export class VersionedStore<K, V> {
+  readonly nodeId: string;
+  private readonly sizeCalculator: (value: V) => number;
+  private readonly conflictResolver: ConflictResolver<V>;
+  private readonly tombstoneGraceMs: number;
+  private readonly hlc: HybridLogicalClock;
+  private readonly cache: LRUCache<K, Versioned<V>[]>;
+  private readonly tree: MerkleTree<K>;
+  private readonly tombstones = new Set<K>();
+
+  /**
+   * Create a new VersionedStore with the specified options
+   * @param options Configuration options
+   */
+  constructor(options: VersionedStoreOptions<V>) {
+    const {
+      nodeId,
+      sizeCalculator,
+      conflictResolver,
+      merkleDepth,
+      tombstoneGraceMs,
+      ...cacheOptions
+    } = options;
+
+    if (!nodeId) {
+      throw new Error('Node id must be a non-empty string');
+    }
+
+    this.tombstoneGraceMs = tombstoneGraceMs ?? 24 * 60 * 60 * 1000;
+    if (Number.isNaN(this.tombstoneGraceMs) || this.tombstoneGraceMs <= 0) {
+      throw new Error('Tombstone grace period must be a positive number');
+    }
+
+    this.nodeId = nodeId;
+    this.sizeCalculator = sizeCalculator ?? estimateSize;
+    this.conflictResolver = conflictResolver ?? new KeepAllSiblingsResolver<V>();
+    this.hlc = new HybridLogicalClock(nodeId);
+    this.cache = new LRUCache<K, Versioned<V>[]>({
+      ...cacheOptions,
+      sizeCalculator: (siblings) => this.calculateSize(siblings),
+    });
+
+    // Keep the Merkle tree and tombstone accounting in step with every write, eviction and expiry
+    this.tree = new MerkleTree<K>({ depth: merkleDepth });
+    this.cache.on('set', (key, siblings) => {
+      this.tree.update(key, digestOf(siblings));
+      if (isTombstone(siblings)) {
+        this.tombstones.add(key);
+      } else {
+        this.tombstones.delete(key);
+      }
+    });
+    this.cache.on('dispose', (key, _siblings, reason) => {
+      if (reason === 'overwrite') return;
+      this.tree.remove(key);
+      this.tombstones.delete(key);
+    });
+  }
+
+  /**
+   * Get the number of live keys in the store, excluding tombstones
+   */
+  get size(): number {
+    return this.cache.size - this.tombstones.size;
+  }
+
+  /**
+   * Get the number of deleted keys whose tombstones are still kept
+   */
+  get tombstoneCount(): number {
+    return this.tombstones.size;
+  }
+
+  /**
+   * Get the current memory usage of the store in bytes, including tombstones
+   */
+  get memoryUsage(): number {
+    return this.cache.memoryUsage;
+  }
+
+  /**
+   * Check if the store contains a key
+   * @param key The key to check
+   */
+  has(key: K): boolean {
+    return this.cache.has(key) && !this.tombstones.has(key);
+  }
+
+  /**
+   * Get all live sibling versions of a key
+   * @param key The key to retrieve
+   * @returns The siblings and their causal context, or undefined if not found or deleted
+   */
+  get(key: K): VersionedResult<V> | undefined {
+    const siblings = this.cache.get(key);
+
+    if (!siblings || isTombstone(siblings)) {
+      return undefined;
+    }
+
+    return VersionedStore.toResult(siblings);
+  }
+
+  /**
+   * Get the sibling versions of a key without marking it as recently used
+   * Tombstones are included, since replicas need them to agree on deletes
+   * @param key The key to inspect
+   * @returns The siblings, or an empty array if not found
+   */
+  getVersions(key: K): Versioned<V>[] {
+    return [...(this.cache.peek(key) ?? [])];
+  }
+
+  /**
+   * Iterate over the live keys in the store from most to least recently used
+   */
+  *keys(): IterableIterator<K> {
+    for (const key of this.cache.keys()) {
+      if (!this.tombstones.has(key)) yield key;
+    }
+  }
+
+  /**
+   * Get the leaf hashes of the store's Merkle tree, for comparison with another replica
+   */
+  merkleLeaves(): number[] {
+    return this.tree.leafHashes();
+  }
+
+  /**
+   * Find the key ranges where a replica with the given leaf hashes differs from this one
+   * @param leafHashes Output of merkleLeaves() on the other replica
+   */
+  diffMerkleLeaves(leafHashes: number[]): MerkleRange[] {
+    return this.tree.diffLeaves(leafHashes);
+  }
+
+  /**
+   * List the keys that fall into the given Merkle ranges
+   * @param ranges Ranges returned by diffMerkleLeaves()
+   */
+  keysInRanges(ranges: MerkleRange[]): K[] {
+    return this.tree.keysInRanges(ranges);
+  }
+
+  /**
+   * Write a new value for a key on behalf of this node
+   * Versions covered by the causal context are replaced; any others are kept as siblings
+   * @param key The key to write
+   * @param value The value to store
+   * @param context Context from a previous get(), omitted for blind writes
+   * @returns The version that was written
+   */
+  put(key: K, value: V, context?: CausalContext): Versioned<V> {
+    const base = context !== undefined ? VersionedStore.decodeContext(context) : new VectorClock();
+    return this.write(key, { value, clock: base, timestamp: this.hlc.now() });
+  }
+
+  /**
+   * Write a value only if the key has not changed since the causal context was read
+   * The context is the key's version token: it stops matching as soon as another
+   * version is written locally or merged in from a replica.
+   * @param key The key to write
+   * @param expected Context from get(), or undefined to write only if the key has no live value
+   * @param value The value to store
+   * @returns The version that was written, or undefined if the key had changed
+   */
+  compareAndSet(key: K, expected: CausalContext | undefined, value: V): Versioned<V> | undefined {
+    const current = mergeClocks(this.cache.peek(key) ?? []);
+    const changed =
+      expected === undefined
+        ? this.has(key)
+        : VersionedStore.decodeContext(expected).compare(current) !== 'equal';
+
+    if (changed) {
+      return undefined;
+    }
+
+    // Supersede any tombstone too, so the key is not left deleted alongside the new value
+    return this.put(key, value, VersionedStore.encodeContext(current));
+  }
+
+  /**
+   * Replace a key's value with the result of a function of its current siblings
+   * The written version supersedes every version the function saw
+   * @param key The key to update
+   * @param fn Function receiving the current siblings, or undefined if the key has no
+   * live value, and returning the new value
+   * @returns The version that was written
+   */
+  update(key: K, fn: (current: VersionedResult<V> | undefined) => V): Versioned<V> {
+    const context = VersionedStore.encodeContext(mergeClocks(this.cache.peek(key) ?? []));
+    return this.put(key, fn(this.get(key)), context);
+  }
+
+  /**
+   * Add to a PN-counter stored under a key on behalf of this node
+   * Concurrent siblings are merged first, so increments made on other replicas are kept
+   * @param key The key of the counter, created at 0 if absent
+   * @param delta The amount to add, negative to subtract
+   * @returns The counter's new value as seen by this replica
+   */
+  increment(this: VersionedStore<K, PNCounterJSON>, key: K, delta: number = 1): number {
+    let counter = new PNCounter();
+
+    this.update(key, (current) => {
+      counter = PNCounter.mergeAll(current?.values ?? []).increment(this.nodeId, delta);
+      return counter.toJSON();
+    });
+
+    return counter.value;
+  }
+
+  /**
+   * Merge versions received from another replica into the store
+   * @param key The key the versions belong to
+   * @param versions The incoming versions
+   * @returns True if the stored versions changed
+   */
+  merge(key: K, versions: Versioned<V>[]): boolean {
+    const existing = this.cache.peek(key) ?? [];
+
+    for (const version of versions) {
+      this.hlc.update(version.timestamp);
+    }
+
+    const merged = this.resolve(reconcile([...existing, ...versions]));
+
+    if (sameVersions(existing, merged)) {
+      return false;
+    }
+
+    this.store(key, merged);
+    return true;
+  }
+
+  /**
+   * Reduce a set of versions, e.g. gathered from several replicas, to the
+   * siblings this store would keep, without storing them
+   * @param versions The versions to reconcile
+   */
+  reconcile(versions: Versioned<V>[]): Versioned<V>[] {
+    return this.resolve(reconcile(versions));
+  }
+
+  /**
+   * Delete a key by writing a tombstone on behalf of this node
+   * Versions covered by the causal context are replaced by the tombstone, which
+   * replicates like any other version until the grace period expires
+   * @param key The key to delete
+   * @param context Context from a previous get(), defaults to every version this replica holds
+   * @returns True if the key had a live value on this replica
+   */
+  delete(key: K, context?: CausalContext): boolean {
+    const existing = this.cache.peek(key) ?? [];
+    const live = existing.some((version) => !version.deleted);
+
+    if (!live && context === undefined) {
+      return false;
+    }
+
+    const base =
+      context !== undefined ? VersionedStore.decodeContext(context) : mergeClocks(existing);
+    this.write(key, {
+      value: undefined as V,
+      clock: base,
+      timestamp: this.hlc.now(),
+      deleted: true,
+    });
+
+    return live;
+  }
+
+  /**
+   * Garbage-collect expired keys and tombstones past their grace period
+   * Expired entries are also dropped lazily when accessed
+   * @returns The number of entries removed
+   */
+  purgeExpired(): number {
+    return this.cache.purgeExpired();
+  }
+
+  /**
+   * Copy every key's siblings, including tombstones and expiry times
+   * Does not affect recency
+   * @returns A JSON-serializable snapshot if the keys are
+   */
+  dump(): LRUCacheSnapshot<K, VersionedJSON<V>[]> {
+    const { version, entries } = this.cache.dump();
+
+    return {
+      version,
+      entries: entries.map((entry) => ({ ...entry, value: serializeVersions(entry.value) })),
+    };
+  }
+
+  /**
+   * Restore keys from a snapshot, preserving recency order, clocks and expiry times
+   * @param snapshot Output of dump()
+   * @returns The number of keys restored, excluding any that already expired
+   */
+  load(snapshot: LRUCacheSnapshot<K, VersionedJSON<V>[]>): number {
+    return this.cache.load({
+      version: snapshot.version,
+      entries: snapshot.entries.map((entry) => ({ ...entry, value: this.restore(entry.value) })),
+    });
+  }
+
+  /**
+   * Write a snapshot of the store to a stream as JSON lines
+   * @param stream The stream to write to, left open afterwards
+   * @returns The number of keys written
+   */
+  dumpTo(stream: Writable): Promise<number> {
+    return this.cache.dumpTo(stream, { serialize: serializeVersions });
+  }
+
+  /**
+   * Restore keys from a stream written by dumpTo()
+   * @param stream The stream to read from
+   * @returns The number of keys restored, excluding any that already expired
+   */
+  loadFrom(stream: Readable): Promise<number> {
+    return this.cache.loadFrom(stream, {
+      deserialize: (data) => this.restore(data as VersionedJSON<V>[]),
+    });
+  }
+
+  /**
+   * Clear all keys and tombstones from the store
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Store a new local version whose clock starts from the given base
+   * Siblings the resulting clock descends from are replaced
+   */
+  private write(key: K, version: Versioned<V>): Versioned<V> {
+    const existing = this.cache.peek(key) ?? [];
+
+    // Never reuse a counter this node has already issued for the key
+    const issued = Math.max(0, ...existing.map((sibling) => sibling.clock.get(this.nodeId)));
+    const written: Versioned<V> = {
+      ...version,
+      clock: version.clock
+        .merge(new VectorClock([[this.nodeId, { counter: issued, timestamp: 0 }]]))
+        .increment(this.nodeId),
+    };
+    const siblings = existing.filter((sibling) => !written.clock.descends(sibling.clock));
+
+    this.store(key, this.resolve([...siblings, written]));
+    return written;
+  }
+
+  /**
+   * Save a key's siblings, expiring them once only tombstones remain
+   * The grace period runs from the latest delete rather than from when this
+   * replica stored it, so a tombstone arriving late cannot outlive its peers
+   */
+  private store(key: K, siblings: Versioned<V>[]): void {
+    if (!isTombstone(siblings)) {
+      this.cache.set(key, siblings);
+      return;
+    }
+
+    const deletedAt = Math.max(...siblings.map((version) => version.timestamp.wallTime));
+    const ttlMs = deletedAt + this.tombstoneGraceMs - Date.now();
+
+    if (ttlMs > 0) {
+      this.cache.set(key, siblings, { ttlMs });
+    } else {
+      this.cache.delete(key);
+    }
+  }
+
+  /**
+   * Deserialize restored siblings, advancing the hybrid clock past their timestamps
+   */
+  private restore(versions: VersionedJSON<V>[]): Versioned<V>[] {
+    return versions.map((json) => {
+      const version = VersionedStore.deserializeVersion(json);
+      this.hlc.update(version.timestamp);
+      return version;
+    });
+  }
+
+  /**
+   * Apply the conflict resolver to a set of mutually concurrent versions
+   */
+  private resolve(siblings: Versioned<V>[]): Versioned<V>[] {
+    return siblings.length > 1 ? this.conflictResolver.resolve(siblings) : siblings;
+  }
+
+  private calculateSize(siblings: Versioned<V>[]): number {
+    return siblings.reduce(
+      (total, version) =>
+        total +
+        (version.deleted ? 0 : this.sizeCalculator(version.value)) +
+        estimateSize(version.clock.toJSON()),
+      0,
+    );
+  }
+
+  /**
+   * Build a read result from a set of siblings
+   */
+  static toResult<V>(siblings: Versioned<V>[]): VersionedResult<V> {
+    const live = siblings.filter((version) => !version.deleted);
+
+    return {
+      values: live.map((version) => version.value),
+      siblings: live,
+      context: VersionedStore.encodeContext(mergeClocks(siblings)),
+    };
+  }
+
+  /**
+   * Convert a version to its serialized form
+   */
+  static serializeVersion<V>(version: Versioned<V>): VersionedJSON<V> {
+    return {
+      value: version.value,
+      clock: version.clock.toJSON(),
+      timestamp: version.timestamp,
+      ...(version.deleted && { deleted: true }),
+    };
+  }
+
+  /**
+   * Restore a version from its serialized form
+   */
+  static deserializeVersion<V>(json: VersionedJSON<V>): Versioned<V> {
+    return {
+      value: json.value,
+      clock: VectorClock.fromJSON(json.clock),
+      timestamp: json.timestamp,
+      ...(json.deleted && { deleted: true }),
+    };
+  }
+
+  /**
+   * Encode a vector clock as an opaque causal context token
+   */
+  static encodeContext(clock: VectorClock): CausalContext {
+    return Buffer.from(JSON.stringify(clock.toJSON()), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Decode a causal context token back into a vector clock
+   */
+  static decodeContext(context: CausalContext): VectorClock {
+    try {
+      return VectorClock.fromJSON(Buffer.from(context, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid causal context');
+    }
+  }
+}
+
+/**
+ * Drop every version that is dominated by, or identical to, another version
+ */
+function reconcile<V>(versions: Versioned<V>[]): Versioned<V>[] {
+  const result: Versioned<V>[] = [];
+
+  for (const candidate of versions) {
+    if (result.some((kept) => kept.clock.descends(candidate.clock))) {
+      continue;
+    }
+
+    for (let i = result.length - 1; i >= 0; i--) {
+      if (candidate.clock.descends(result[i]!.clock)) {
+        result.splice(i, 1);
+      }
+    }
+
+    result.push(candidate);
+  }
+
+  return result;
+}
+
+/**
+ * Canonical description of a sibling set, equal on replicas holding the same versions
+ */
+function digestOf<V>(siblings: Versioned<V>[]): string {
+  return siblings
+    .map((version) =>
+      version.clock.nodeIds
+        .sort()
+        .map((nodeId) => `${nodeId}:${version.clock.get(nodeId)}`)
+        .join(','),
+    )
+    .sort()
+    .join('|');
+}
+
+function serializeVersions<V>(versions: Versioned<V>[]): VersionedJSON<V>[] {
+  return versions.map((version) => VersionedStore.serializeVersion(version));
+}
+
+/**
+ * Check if a key's siblings are all tombstones, i.e. the key is deleted
+ */
+function isTombstone<V>(siblings: Versioned<V>[]): boolean {
+  return siblings.length > 0 && siblings.every((version) => version.deleted);
+}
+
+function sameVersions<V>(a: Versioned<V>[], b: Versioned<V>[]): boolean {
+  return a.length === b.length && a.every((version, i) => version === b[i]);
+}
@@ -0,0 +1,41 @@
+import { estimatedSize } from '../components/size-estimator';
+
+/**
+ * State-based conflict-free replicated data type
+ * Replicas change their copies independently; merging any two states in any order,
+ * any number of times, converges on the same result.
+ */
+export interface Crdt<J> {
+  /**
+   * Combine two states, keeping every change either has seen
+   * @param other The state to merge with
+   * @returns A new state
+   */
+  merge(other: Crdt<J>): Crdt<J>;
+
+  /**
+   * Get the part of this state that another replica has not seen
+   * Merging the delta into `since` gives the same result as merging this whole state,
+   * so replicas can exchange deltas instead of full states.
+   * @param since State the other replica is known to have
+   * @returns A new state holding only the missing changes
+   */
+  delta(since: Crdt<J>): Crdt<J>;
+
+  /**
+   * Serialize the state to a plain object
+   */
+  toJSON(): J;
+
+  /**
+   * Estimate the memory size of the state in bytes, for cache memory accounting
+   */
+  [estimatedSize](): number;
+}
+
+/**
+ * A CRDT class, used to rebuild states from their serialized form
+ */
+export interface CrdtType<J> {
+  fromJSON(json: J): Crdt<J>;
+}
@@ -0,0 +1,118 @@
+import { estimateSize, estimatedSize } from '../components/size-estimator';
+import { Crdt } from './crdt';
+
+/**
+ * Serialized form of a GCounter: the total added by each node
+ */
+export type GCounterJSON = Record<string, number>;
+
+/**
+ * Immutable grow-only counter that replicas can increment independently
+ * Each node only ever grows its own total, so merging takes the larger total per
+ * node and the value is their sum.
+ */
+export class GCounter implements Crdt<GCounterJSON> {
+  private readonly totals: ReadonlyMap<string, number>;
+
+  /**
+   * Create a new GCounter
+   * @param totals Total added by each node
+   */
+  constructor(totals: Iterable<[string, number]> = []) {
+    this.totals = new Map(totals);
+  }
+
+  /**
+   * Get the current value of the counter
+   */
+  get value(): number {
+    let total = 0;
+    for (const value of this.totals.values()) total += value;
+    return total;
+  }
+
+  /**
+   * Get the total added by each node
+   */
+  entries(): IterableIterator<[string, number]> {
+    return this.totals.entries();
+  }
+
+  /**
+   * Add to the counter on behalf of a node
+   * @param nodeId The node making the change
+   * @param delta The amount to add
+   * @returns A new counter including the change
+   * @throws Error if the delta is negative or not finite
+   */
+  increment(nodeId: string, delta: number = 1): GCounter {
+    if (!Number.isFinite(delta) || delta < 0) {
+      throw new Error('Delta must be a non-negative finite number');
+    }
+
+    const totals = new Map(this.totals);
+    totals.set(nodeId, (totals.get(nodeId) ?? 0) + delta);
+    return new GCounter(totals);
+  }
+
+  /**
+   * Combine two counters, keeping every change either has seen
+   * @param other The counter to merge with
+   * @returns A new counter
+   */
+  merge(other: GCounter): GCounter {
+    const totals = new Map(this.totals);
+
+    for (const [nodeId, value] of other.totals) {
+      totals.set(nodeId, Math.max(totals.get(nodeId) ?? 0, value));
+    }
+
+    return new GCounter(totals);
+  }
+
+  /**
+   * Get the changes a replica holding another counter has not seen
+   * @param since The counter the replica is known to have
+   * @returns A new counter with only the missing totals
+   */
+  delta(since: GCounter): GCounter {
+    return new GCounter(
+      [...this.totals].filter(([nodeId, value]) => value > (since.totals.get(nodeId) ?? 0)),
+    );
+  }
+
+  /**
+   * Serialize the counter to a plain object
+   */
+  toJSON(): GCounterJSON {
+    return Object.fromEntries(this.totals);
+  }
+
+  /**
+   * Estimate the memory size in bytes, counted as its serialized form
+   */
+  [estimatedSize](): number {
+    return estimateSize(this.toJSON());
+  }
+
+  /**
+   * Create a counter from its serialized form
+   * @param json A value produced by toJSON(), or its JSON string
+   */
+  static fromJSON(json: GCounterJSON | string): GCounter {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Invalid G-counter: expected an object');
+    }
+
+    return new GCounter(
+      Object.entries(parsed).map(([nodeId, value]) => {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw new Error(`Invalid G-counter total for node "${nodeId}"`);
+        }
+        return [nodeId, value];
+      }),
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { estimateSize, estimatedSize } from '../components/size-estimator';
+import { HybridLogicalClock, HybridTimestamp } from '../core/hybrid-clock';
+import { Crdt } from './crdt';
+
+/**
+ * Latest write to a key of an LWWMap
+ */
+export interface LWWMapEntry<V> {
+  /** The value written, undefined for a delete */
+  value?: V;
+
+  /** When the write happened */
+  timestamp: HybridTimestamp;
+
+  /** Whether the write deleted the key */
+  deleted?: boolean;
+}
+
+/**
+ * Serialized form of an LWWMap: the latest write to each key
+ */
+export type LWWMapJSON<V> = Record<string, LWWMapEntry<V>>;
+
+/**
+ * Immutable map whose keys replicas can write independently
+ * Each key keeps only its write with the latest hybrid timestamp, so concurrent writes
+ * to the same key resolve to one value while writes to different keys are all kept.
+ * Deletes are kept as timestamped tombstones so an older write cannot revive the key.
+ */
+export class LWWMap<V> implements Crdt<LWWMapJSON<V>> {
+  private readonly entries: ReadonlyMap<string, LWWMapEntry<V>>;
+
+  /**
+   * Create a new LWWMap
+   * @param entries The latest write to each key
+   */
+  constructor(entries: Iterable<[string, LWWMapEntry<V>]> = []) {
+    this.entries = new Map(entries);
+  }
+
+  /**
+   * Get the number of keys with a value
+   */
+  get size(): number {
+    return this.keys().length;
+  }
+
+  /**
+   * Get the value of a key
+   * @param key The key to look up
+   * @returns The value or undefined if the key is missing or deleted
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    return entry?.deleted ? undefined : entry?.value;
+  }
+
+  /**
+   * Check if a key has a value
+   * @param key The key to look for
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && !entry.deleted;
+  }
+
+  /**
+   * Get the keys that have a value
+   */
+  keys(): string[] {
+    return [...this.entries].filter(([, entry]) => !entry.deleted).map(([key]) => key);
+  }
+
+  /**
+   * Write a key's value
+   * @param key The key to write
+   * @param value The value to store
+   * @param timestamp When the write happened, e.g. from a HybridLogicalClock
+   * @returns A new map, unchanged if the key has a later write
+   */
+  set(key: string, value: V, timestamp: HybridTimestamp): LWWMap<V> {
+    return this.write(key, { value, timestamp });
+  }
+
+  /**
+   * Delete a key
+   * @param key The key to delete
+   * @param timestamp When the delete happened, e.g. from a HybridLogicalClock
+   * @returns A new map, unchanged if the key has a later write
+   */
+  delete(key: string, timestamp: HybridTimestamp): LWWMap<V> {
+    return this.write(key, { timestamp, deleted: true });
+  }
+
+  /**
+   * Combine two maps, keeping the latest write to each key
+   * @param other The map to merge with
+   * @returns A new map
+   */
+  merge(other: LWWMap<V>): LWWMap<V> {
+    const entries = new Map(this.entries);
+
+    for (const [key, entry] of other.entries) {
+      const current = entries.get(key);
+      if (!current || isLater(entry, current)) entries.set(key, entry);
+    }
+
+    return new LWWMap(entries);
+  }
+
+  /**
+   * Get the writes a replica holding another map has not seen
+   * @param since The map the replica is known to have
+   * @returns A new map with only the later writes
+   */
+  delta(since: LWWMap<V>): LWWMap<V> {
+    return new LWWMap(
+      [...this.entries].filter(([key, entry]) => {
+        const seen = since.entries.get(key);
+        return !seen || isLater(entry, seen);
+      }),
+    );
+  }
+
+  /**
+   * Serialize the map to a plain object
+   */
+  toJSON(): LWWMapJSON<V> {
+    return Object.fromEntries(this.entries);
+  }
+
+  /**
+   * Estimate the memory size in bytes, counted as its serialized form
+   */
+  [estimatedSize](): number {
+    return estimateSize(this.toJSON());
+  }
+
+  /**
+   * Create a map from its serialized form
+   * @param json A value produced by toJSON(), or its JSON string
+   */
+  static fromJSON<V>(json: LWWMapJSON<V> | string): LWWMap<V> {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Invalid LWW-map: expected an object');
+    }
+
+    return new LWWMap(
+      Object.entries(parsed as Record<string, unknown>).map(([key, entry]) => {
+        if (!isEntry<V>(entry)) {
+          throw new Error(`Invalid LWW-map entry for key "${key}"`);
+        }
+        return [key, entry];
+      }),
+    );
+  }
+
+  private write(key: string, entry: LWWMapEntry<V>): LWWMap<V> {
+    const current = this.entries.get(key);
+    if (current && !isLater(entry, current)) return this;
+
+    const entries = new Map(this.entries);
+    entries.set(key, entry);
+    return new LWWMap(entries);
+  }
+}
+
+function isLater<V>(entry: LWWMapEntry<V>, than: LWWMapEntry<V>): boolean {
+  return HybridLogicalClock.compare(entry.timestamp, than.timestamp) > 0;
+}
+
+function isEntry<V>(entry: unknown): entry is LWWMapEntry<V> {
+  if (typeof entry !== 'object' || entry === null) return false;
+
+  const { timestamp } = entry as Partial<LWWMapEntry<V>>;
+  return (
+    typeof timestamp === 'object' &&
+    timestamp !== null &&
+    typeof timestamp.wallTime === 'number' &&
+    typeof timestamp.logical === 'number' &&
+    typeof timestamp.nodeId === 'string'
+  );
+}
@@ -0,0 +1,195 @@
+import { estimateSize, estimatedSize } from '../components/size-estimator';
+import { Crdt } from './crdt';
+
+/**
+ * Elements an ORSet can hold; they are compared by value
+ */
+export type ORSetElement = string | number;
+
+/**
+ * Serialized form of an ORSet
+ */
+export interface ORSetJSON<T extends ORSetElement> {
+  /** Each element present, with the tags of the adds that put it there */
+  elements: Array<[T, string[]]>;
+
+  /** Tags of adds that have been removed */
+  removed: string[];
+}
+
+/**
+ * Immutable observed-remove set that replicas can change independently
+ * Every add is tagged uniquely, and a remove only cancels the adds it has seen, so
+ * an add concurrent with a remove of the same element wins. Removed tags are kept
+ * to stop merges from reviving them, so the state grows with every remove.
+ */
+export class ORSet<T extends ORSetElement> implements Crdt<ORSetJSON<T>> {
+  private readonly elements: ReadonlyMap<T, ReadonlySet<string>>;
+  private readonly removed: ReadonlySet<string>;
+
+  /**
+   * Create a new ORSet
+   * @param elements Each element present with the tags of its adds
+   * @param removed Tags of adds that have been removed
+   */
+  constructor(elements: Iterable<[T, Iterable<string>]> = [], removed: Iterable<string> = []) {
+    this.removed = new Set(removed);
+    this.elements = new Map(
+      [...elements]
+        .map(([element, tags]): [T, Set<string>] => [
+          element,
+          new Set([...tags].filter((tag) => !this.removed.has(tag))),
+        ])
+        .filter(([, tags]) => tags.size > 0),
+    );
+  }
+
+  /**
+   * Get the number of elements in the set
+   */
+  get size(): number {
+    return this.elements.size;
+  }
+
+  /**
+   * Check if an element is in the set
+   * @param element The element to look for
+   */
+  has(element: T): boolean {
+    return this.elements.has(element);
+  }
+
+  /**
+   * Get the elements in the set
+   */
+  values(): T[] {
+    return [...this.elements.keys()];
+  }
+
+  /**
+   * Add an element on behalf of a node
+   * @param nodeId The node making the change
+   * @param element The element to add
+   * @returns A new set including the element
+   */
+  add(nodeId: string, element: T): ORSet<T> {
+    const elements = new Map(this.elements);
+    elements.set(element, new Set([...(this.elements.get(element) ?? []), this.nextTag(nodeId)]));
+    return new ORSet(elements, this.removed);
+  }
+
+  /**
+   * Remove an element, cancelling every add of it this set has seen
+   * @param element The element to remove
+   * @returns A new set without the element
+   */
+  remove(element: T): ORSet<T> {
+    const tags = this.elements.get(element);
+    if (!tags) return this;
+
+    const elements = new Map(this.elements);
+    elements.delete(element);
+    return new ORSet(elements, [...this.removed, ...tags]);
+  }
+
+  /**
+   * Combine two sets, keeping every add and remove either has seen
+   * @param other The set to merge with
+   * @returns A new set
+   */
+  merge(other: ORSet<T>): ORSet<T> {
+    const elements = new Map<T, Set<string>>();
+
+    for (const [element, tags] of [...this.elements, ...other.elements]) {
+      elements.set(element, new Set([...(elements.get(element) ?? []), ...tags]));
+    }
+
+    return new ORSet(elements, [...this.removed, ...other.removed]);
+  }
+
+  /**
+   * Get the adds and removes a replica holding another set has not seen
+   * @param since The set the replica is known to have
+   * @returns A new set with only the missing tags
+   */
+  delta(since: ORSet<T>): ORSet<T> {
+    const seen = new Set(since.tags());
+
+    return new ORSet(
+      [...this.elements].map(([element, tags]) => [
+        element,
+        [...tags].filter((tag) => !seen.has(tag)),
+      ]),
+      [...this.removed].filter((tag) => !since.removed.has(tag)),
+    );
+  }
+
+  /**
+   * Serialize the set to a plain object
+   */
+  toJSON(): ORSetJSON<T> {
+    return {
+      elements: [...this.elements].map(([element, tags]) => [element, [...tags]]),
+      removed: [...this.removed],
+    };
+  }
+
+  /**
+   * Estimate the memory size in bytes, counted as its serialized form
+   */
+  [estimatedSize](): number {
+    return estimateSize(this.toJSON());
+  }
+
+  /**
+   * Create a set from its serialized form
+   * @param json A value produced by toJSON(), or its JSON string
+   */
+  static fromJSON<T extends ORSetElement>(json: ORSetJSON<T> | string): ORSet<T> {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    const { elements, removed } = (parsed ?? {}) as Partial<ORSetJSON<T>>;
+
+    if (!Array.isArray(elements) || !isTagList(removed)) {
+      throw new Error('Invalid OR-set: expected elements and removed arrays');
+    }
+
+    for (const entry of elements) {
+      if (
+        !Array.isArray(entry) ||
+        (typeof entry[0] !== 'string' && typeof entry[0] !== 'number') ||
+        !isTagList(entry[1])
+      ) {
+        throw new Error('Invalid OR-set element: expected an element and its tags');
+      }
+    }
+
+    return new ORSet(elements, removed);
+  }
+
+  /**
+   * Create a tag no earlier add by the node has used
+   * Tags are the node id and a per-node sequence number, so a node keeps numbering
+   * from the highest it has seen, including in removed tags.
+   */
+  private nextTag(nodeId: string): string {
+    const prefix = `${nodeId}:`;
+    let sequence = 0;
+
+    for (const tag of this.tags()) {
+      if (tag.startsWith(prefix)) {
+        sequence = Math.max(sequence, Number(tag.slice(prefix.length)) || 0);
+      }
+    }
+
+    return `${prefix}${sequence + 1}`;
+  }
+
+  private *tags(): Generator<string> {
+    yield* this.removed;
+    for (const tags of this.elements.values()) yield* tags;
+  }
+}
+
+function isTagList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((tag) => typeof tag === 'string');
+}
@@ -0,0 +1,131 @@
+import { estimateSize, estimatedSize } from '../components/size-estimator';
+import { Crdt } from './crdt';
+import { GCounter } from './g-counter';
+
+/**
+ * Serialized form of a PNCounter: the total added and subtracted by each node
+ */
+export interface PNCounterJSON {
+  p: Record<string, number>;
+  n: Record<string, number>;
+}
+
+/**
+ * Immutable counter that replicas can change independently and merge without losing updates
+ * Increments and decrements are kept in two grow-only counters, and the value is
+ * their difference.
+ */
+export class PNCounter implements Crdt<PNCounterJSON> {
+  private readonly increments: GCounter;
+  private readonly decrements: GCounter;
+
+  /**
+   * Create a new PNCounter
+   * @param increments Total added by each node
+   * @param decrements Total subtracted by each node
+   */
+  constructor(
+    increments: Iterable<[string, number]> = [],
+    decrements: Iterable<[string, number]> = [],
+  ) {
+    this.increments = new GCounter(increments);
+    this.decrements = new GCounter(decrements);
+  }
+
+  /**
+   * Get the current value of the counter
+   */
+  get value(): number {
+    return this.increments.value - this.decrements.value;
+  }
+
+  /**
+   * Add to the counter on behalf of a node
+   * @param nodeId The node making the change
+   * @param delta The amount to add, negative to subtract
+   * @returns A new counter including the change
+   */
+  increment(nodeId: string, delta: number = 1): PNCounter {
+    if (!Number.isFinite(delta)) {
+      throw new Error('Delta must be a finite number');
+    }
+
+    return delta >= 0
+      ? PNCounter.of(this.increments.increment(nodeId, delta), this.decrements)
+      : PNCounter.of(this.increments, this.decrements.increment(nodeId, -delta));
+  }
+
+  /**
+   * Combine two counters, keeping every change either has seen
+   * @param other The counter to merge with
+   * @returns A new counter
+   */
+  merge(other: PNCounter): PNCounter {
+    return PNCounter.of(
+      this.increments.merge(other.increments),
+      this.decrements.merge(other.decrements),
+    );
+  }
+
+  /**
+   * Get the changes a replica holding another counter has not seen
+   * @param since The counter the replica is known to have
+   * @returns A new counter with only the missing totals
+   */
+  delta(since: PNCounter): PNCounter {
+    return PNCounter.of(
+      this.increments.delta(since.increments),
+      this.decrements.delta(since.decrements),
+    );
+  }
+
+  /**
+   * Serialize the counter to a plain object
+   */
+  toJSON(): PNCounterJSON {
+    return { p: this.increments.toJSON(), n: this.decrements.toJSON() };
+  }
+
+  /**
+   * Estimate the memory size in bytes, counted as its serialized form
+   */
+  [estimatedSize](): number {
+    return estimateSize(this.toJSON());
+  }
+
+  /**
+   * Create a counter from its serialized form
+   * @param json A value produced by toJSON(), or its JSON string
+   */
+  static fromJSON(json: PNCounterJSON | string): PNCounter {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    const { p, n } = (parsed ?? {}) as Partial<PNCounterJSON>;
+
+    return new PNCounter(parseTotals(p), parseTotals(n));
+  }
+
+  /**
+   * Merge serialized counters, such as the siblings read for a key
+   * @param values Values produced by toJSON()
+   */
+  static mergeAll(values: PNCounterJSON[]): PNCounter {
+    return values.reduce((merged, json) => merged.merge(PNCounter.fromJSON(json)), new PNCounter());
+  }
+
+  private static of(increments: GCounter, decrements: GCounter): PNCounter {
+    return new PNCounter(increments.entries(), decrements.entries());
+  }
+}
+
+function parseTotals(totals: unknown): Array<[string, number]> {
+  if (typeof totals !== 'object' || totals === null || Array.isArray(totals)) {
+    throw new Error('Invalid PN-counter: expected p and n objects');
+  }
+
+  return Object.entries(totals).map(([nodeId, value]) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid PN-counter total for node "${nodeId}"`);
+    }
+    return [nodeId, value];
+  });
+}
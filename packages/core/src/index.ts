@@ -1 +1,26 @@
+export * from './cluster/anti-entropy';
+export * from './cluster/coordinator';
+export * from './cluster/hash-ring';
+export * from './cluster/hinted-handoff';
+export * from './cluster/in-memory-transport';
+export * from './cluster/membership';
+export * from './cluster/rpc';
+export * from './cluster/transport';
+export * from './components/merkle-tree';
+export * from './components/size-estimator';
+export * from './core/adaptive-memory-limit';
+export * from './core/cache-manager';
+export * from './core/conflict-resolver';
+export * from './core/eviction-policy';
+export * from './core/hybrid-clock';
 export * from './core/lru-cache';
+export * from './core/vector-clock';
+export * from './core/versioned-store';
+export * from './crdt/crdt';
+export * from './crdt/g-counter';
+export * from './crdt/lww-map';
+export * from './crdt/or-set';
+export * from './crdt/pn-counter';
+export * from './metrics/collectors';
+export * from './metrics/registry';
+export * from './persistence/write-ahead-log';
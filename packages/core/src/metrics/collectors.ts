@@ -0,0 +1,214 @@
+import { AntiEntropy } from '../cluster/anti-entropy';
+import { HintedHandoff } from '../cluster/hinted-handoff';
+import { Membership, MemberStatus } from '../cluster/membership';
+import { EvictionReason, LRUCache } from '../core/lru-cache';
+import { MetricFamily, MetricLabels, MetricsCollector, MetricType } from './registry';
+
+const PREFIX = 'gossipstore';
+
+/**
+ * Collect the usage counters and current size of a cache
+ * @param cache The cache to report on
+ * @param labels Labels added to every sample, e.g. { cache: 'users' } to tell caches apart
+ */
+export function cacheMetrics<K, V>(
+  cache: LRUCache<K, V>,
+  labels: MetricLabels = {},
+): MetricsCollector {
+  return () => {
+    const stats = cache.stats();
+    const reasons = Object.keys(stats.evictions) as EvictionReason[];
+
+    return [
+      metric('cache_hits_total', 'Cache lookups that found a value', 'counter', stats.hits, labels),
+      metric(
+        'cache_misses_total',
+        'Cache lookups that found nothing',
+        'counter',
+        stats.misses,
+        labels,
+      ),
+      metric('cache_sets_total', 'Values stored in the cache', 'counter', stats.sets, labels),
+      metric(
+        'cache_overwrites_total',
+        'Stored values that replaced an existing one',
+        'counter',
+        stats.overwrites,
+        labels,
+      ),
+      {
+        name: `${PREFIX}_cache_evictions_total`,
+        help: 'Entries evicted from the cache, by reason',
+        type: 'counter',
+        samples: reasons.map((reason) => ({
+          labels: { ...labels, reason },
+          value: stats.evictions[reason],
+        })),
+      },
+      metric(
+        'cache_rejected_total',
+        'Values not stored because they exceed the memory limit',
+        'counter',
+        stats.rejected,
+        labels,
+      ),
+      metric('cache_entries', 'Entries in the cache', 'gauge', cache.size, labels),
+      metric(
+        'cache_memory_bytes',
+        'Estimated memory used by the cache',
+        'gauge',
+        cache.memoryUsage,
+        labels,
+      ),
+      metric(
+        'cache_memory_high_water_bytes',
+        'Highest memory used by the cache since its stats were reset',
+        'gauge',
+        stats.memoryHighWater,
+        labels,
+      ),
+    ];
+  };
+}
+
+/**
+ * Collect failure detection counters and the number of members in each state
+ * @param membership The local membership
+ * @param labels Labels added to every sample
+ */
+export function membershipMetrics(
+  membership: Membership,
+  labels: MetricLabels = {},
+): MetricsCollector {
+  return () => {
+    const stats = membership.stats();
+    const counts: Record<MemberStatus, number> = { alive: 0, suspect: 0, dead: 0 };
+
+    for (const member of membership.getMembers()) {
+      counts[member.status]++;
+    }
+
+    return [
+      metric(
+        'membership_probes_total',
+        'Failure detection probes sent',
+        'counter',
+        stats.probes,
+        labels,
+      ),
+      metric(
+        'membership_failed_probes_total',
+        'Probes that got no direct or indirect answer',
+        'counter',
+        stats.failedProbes,
+        labels,
+      ),
+      {
+        name: `${PREFIX}_membership_members`,
+        help: 'Known cluster members, by status',
+        type: 'gauge',
+        samples: (Object.keys(counts) as MemberStatus[]).map((status) => ({
+          labels: { ...labels, status },
+          value: counts[status],
+        })),
+      },
+    ];
+  };
+}
+
+/**
+ * Collect anti-entropy round counters
+ * Replication lag is exported as the time of the last completed round, so it can be
+ * alerted on as time() - gossipstore_anti_entropy_last_sync_timestamp_seconds.
+ * @param antiEntropy The local anti-entropy process
+ * @param labels Labels added to every sample
+ */
+export function antiEntropyMetrics<V>(
+  antiEntropy: AntiEntropy<V>,
+  labels: MetricLabels = {},
+): MetricsCollector {
+  return () => {
+    const stats = antiEntropy.stats();
+    const families = [
+      metric(
+        'anti_entropy_rounds_total',
+        'Completed synchronisation rounds',
+        'counter',
+        stats.rounds,
+        labels,
+      ),
+      metric(
+        'anti_entropy_failed_rounds_total',
+        'Synchronisation rounds that failed',
+        'counter',
+        stats.failedRounds,
+        labels,
+      ),
+      metric(
+        'anti_entropy_keys_pulled_total',
+        'Keys received from peers',
+        'counter',
+        stats.keysPulled,
+        labels,
+      ),
+      metric(
+        'anti_entropy_keys_pushed_total',
+        'Keys sent to peers',
+        'counter',
+        stats.keysPushed,
+        labels,
+      ),
+    ];
+
+    if (stats.lastSyncAt !== undefined) {
+      families.push(
+        metric(
+          'anti_entropy_last_sync_timestamp_seconds',
+          'Time the last synchronisation round completed',
+          'gauge',
+          stats.lastSyncAt / 1000,
+          labels,
+        ),
+      );
+    }
+
+    return families;
+  };
+}
+
+/**
+ * Collect the writes waiting to be handed off to unreachable replicas
+ * @param hints The coordinator's hinted handoff
+ * @param labels Labels added to every sample
+ */
+export function hintedHandoffMetrics<V>(
+  hints: HintedHandoff<V>,
+  labels: MetricLabels = {},
+): MetricsCollector {
+  return () => [
+    metric(
+      'hinted_handoff_hints',
+      'Writes waiting for their replica to return',
+      'gauge',
+      hints.size,
+      labels,
+    ),
+    metric(
+      'hinted_handoff_memory_bytes',
+      'Estimated memory used by pending hints',
+      'gauge',
+      hints.memoryUsage,
+      labels,
+    ),
+  ];
+}
+
+function metric(
+  name: string,
+  help: string,
+  type: MetricType,
+  value: number,
+  labels: MetricLabels,
+): MetricFamily {
+  return { name: `${PREFIX}_${name}`, help, type, samples: [{ labels, value }] };
+}
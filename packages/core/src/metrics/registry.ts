@@ -0,0 +1,142 @@
+/**
+ * Kind of value a metric reports
+ * - counter: only ever increases, except when the source is reset
+ * - gauge: a current value that can go up and down
+ */
+export type MetricType = 'counter' | 'gauge';
+
+/**
+ * Label names and values identifying one series of a metric
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * One value of a metric
+ */
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+/**
+ * A named metric and its current samples
+ */
+export interface MetricFamily {
+  /** Prometheus metric name, e.g. gossipstore_cache_hits_total */
+  name: string;
+
+  /** One-line description of what is measured */
+  help: string;
+
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+/**
+ * Function reading the current values of some metrics
+ * Collectors are called on every scrape, so they should read counters the
+ * source already keeps rather than compute anything expensive.
+ */
+export type MetricsCollector = () => MetricFamily[];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Set of collectors exported together, e.g. on a /metrics endpoint
+ * Families with the same name from different collectors are merged, so several
+ * caches can report the same metrics distinguished by their labels.
+ */
+export class MetricsRegistry {
+  private readonly collectors = new Set<MetricsCollector>();
+
+  /**
+   * Add a collector to the registry
+   * @param collector Function reading the current metric values
+   * @returns Function removing the collector again
+   */
+  register(collector: MetricsCollector): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  /**
+   * Read every registered collector
+   * @returns The metric families, merged by name
+   * @throws Error if a name is invalid or is reported with conflicting types
+   */
+  collect(): MetricFamily[] {
+    const families = new Map<string, MetricFamily>();
+
+    for (const collector of this.collectors) {
+      for (const family of collector()) {
+        MetricsRegistry.validate(family);
+
+        const existing = families.get(family.name);
+        if (!existing) {
+          families.set(family.name, { ...family, samples: [...family.samples] });
+        } else if (existing.type !== family.type) {
+          throw new Error(
+            `Metric ${family.name} is reported as both ${existing.type} and ${family.type}`,
+          );
+        } else {
+          existing.samples.push(...family.samples);
+        }
+      }
+    }
+
+    return [...families.values()];
+  }
+
+  /**
+   * Render every registered metric in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+
+    for (const family of this.collect()) {
+      lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+
+      for (const sample of family.samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private static validate(family: MetricFamily): void {
+    if (!METRIC_NAME.test(family.name)) {
+      throw new Error(`Invalid metric name: ${family.name}`);
+    }
+
+    for (const sample of family.samples) {
+      for (const name of Object.keys(sample.labels ?? {})) {
+        if (!LABEL_NAME.test(name) || name.startsWith('__')) {
+          throw new Error(`Invalid label name on ${family.name}: ${name}`);
+        }
+      }
+    }
+  }
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  const pairs = Object.entries(labels ?? {}).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,395 @@
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  truncateSync,
+  unlinkSync,
+  writeSync,
+} from 'fs';
+import { rename } from 'fs/promises';
+import { join } from 'path';
+import { readJsonLines } from '../components/json-lines';
+import {
+  LRUCache,
+  LRUCacheSnapshotEntry,
+  LRUCacheStreamOptions,
+  SNAPSHOT_VERSION,
+} from '../core/lru-cache';
+
+/**
+ * When appended records are flushed to disk
+ * - always: after every record, so acknowledged writes survive a power loss
+ * - interval: every fsyncIntervalMs, losing at most that window on a power loss
+ * - never: left to the operating system, which still survives a process crash
+ */
+export type FsyncPolicy = 'always' | 'interval' | 'never';
+
+/**
+ * Options for configuring a WriteAheadLog
+ */
+export interface WriteAheadLogOptions<V> extends LRUCacheStreamOptions<V> {
+  /** Directory holding the log and snapshot files, created if missing */
+  directory: string;
+
+  /** When to flush appended records to disk */
+  fsync?: FsyncPolicy;
+
+  /** Interval between flushes with the 'interval' policy */
+  fsyncIntervalMs?: number;
+
+  /** Compact the log into a snapshot after this many records */
+  compactAfterRecords?: number;
+}
+
+interface SetRecord<K> {
+  op: 'set';
+  key: K;
+  value: unknown;
+  expiresAt?: number;
+
+  /** Absent when the entry stops being served as soon as it expires */
+  staleUntil?: number;
+}
+
+interface DeleteRecord<K> {
+  op: 'delete';
+  key: K;
+}
+
+type LogRecord<K> = SetRecord<K> | DeleteRecord<K>;
+
+const SNAPSHOT_FILE = /^snapshot-(\d+)\.jsonl$/;
+const LOG_FILE = /^wal-(\d+)\.log$/;
+
+/**
+ * Append-only log that makes an LRUCache survive restarts
+ * Every set and delete is appended synchronously, before the cache call
+ * returns, and replayed on open. Compaction writes a snapshot of the cache and
+ * starts a new log; files are numbered so a crash at any point during
+ * compaction still replays to the latest state.
+ */
+export class WriteAheadLog<K, V> {
+  private readonly cache: LRUCache<K, V>;
+  private readonly directory: string;
+  private readonly fsync: FsyncPolicy;
+  private readonly fsyncIntervalMs: number;
+  private readonly compactAfterRecords: number;
+  private readonly serialize: (value: V) => unknown;
+  private readonly options: LRUCacheStreamOptions<V>;
+  private fd: number | undefined;
+  private sequence: number = 0;
+  private records: number = 0;
+  private compaction: Promise<void> | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private unsubscribe: Array<() => void> = [];
+
+  /**
+   * Create a new WriteAheadLog
+   * @param cache The cache to persist
+   * @param options Configuration options
+   */
+  constructor(cache: LRUCache<K, V>, options: WriteAheadLogOptions<V>) {
+    this.cache = cache;
+    this.directory = options.directory;
+    this.fsync = options.fsync ?? 'interval';
+    this.fsyncIntervalMs = options.fsyncIntervalMs ?? 1000;
+    this.compactAfterRecords = options.compactAfterRecords ?? 10_000;
+    this.serialize = options.serialize ?? ((value) => value);
+    this.options = { serialize: options.serialize, deserialize: options.deserialize };
+
+    if (this.fsyncIntervalMs <= 0) {
+      throw new Error('Fsync interval must be a positive number');
+    }
+
+    if (this.compactAfterRecords <= 0) {
+      throw new Error('Compaction threshold must be a positive number');
+    }
+  }
+
+  /**
+   * Get the number of records appended since the last compaction
+   */
+  get pendingRecords(): number {
+    return this.records;
+  }
+
+  /**
+   * Restore the cache from disk, then start logging its changes
+   * @returns The number of snapshot entries and log records replayed
+   */
+  async open(): Promise<number> {
+    if (this.fd !== undefined) {
+      throw new Error('Write-ahead log is already open');
+    }
+
+    mkdirSync(this.directory, { recursive: true });
+
+    const snapshots = this.listFiles(SNAPSHOT_FILE);
+    const snapshot = snapshots[snapshots.length - 1];
+    const base = snapshot ?? 0;
+    const logs = this.listFiles(LOG_FILE).filter((sequence) => sequence >= base);
+    const entries = new Map<K, LRUCacheSnapshotEntry<K, V>>();
+    let restored = 0;
+    let records = 0;
+
+    if (snapshot !== undefined) {
+      restored = await this.readSnapshot(this.snapshotPath(snapshot), entries);
+    }
+
+    for (const sequence of logs) {
+      records += await this.replay(this.logPath(sequence), entries);
+    }
+
+    // Loading, unlike set() and delete(), leaves the cache's writer and stats alone:
+    // the backing store already has every logged change
+    this.cache.load({ version: SNAPSHOT_VERSION, entries: [...entries.values()] });
+
+    this.sequence = logs[logs.length - 1] ?? base;
+    this.records = records;
+    truncateTornRecord(this.logPath(this.sequence));
+    this.fd = openSync(this.logPath(this.sequence), 'a');
+    this.removeFilesBefore(base);
+
+    // Drop snapshots left half-written by a crash during compaction
+    for (const name of readdirSync(this.directory)) {
+      if (name.endsWith('.jsonl.tmp')) unlinkSync(join(this.directory, name));
+    }
+
+    this.unsubscribe = [
+      this.cache.on('set', (key, value) => this.appendSet(key, value)),
+      this.cache.on('dispose', (key, _value, reason) => {
+        // Overwrites are followed by a set record and expired entries are dropped on replay
+        if (reason !== 'overwrite' && reason !== 'expired') {
+          this.append({ op: 'delete', key });
+        }
+      }),
+    ];
+
+    if (this.fsync === 'interval') {
+      this.timer = setInterval(() => this.sync(), this.fsyncIntervalMs);
+      this.timer.unref?.();
+    }
+
+    return restored + records;
+  }
+
+  /**
+   * Flush appended records to disk
+   */
+  sync(): void {
+    if (this.fd !== undefined) {
+      fsyncSync(this.fd);
+    }
+  }
+
+  /**
+   * Write the cache to a snapshot and discard the records it covers
+   * Appends continue into a new log while the snapshot is written
+   */
+  compact(): Promise<void> {
+    this.compaction ??= this.writeSnapshot().finally(() => {
+      this.compaction = undefined;
+    });
+    return this.compaction;
+  }
+
+  /**
+   * Stop logging, wait for a running compaction and flush the log
+   */
+  async close(): Promise<void> {
+    this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribe = [];
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    await this.compaction;
+
+    if (this.fd !== undefined) {
+      if (this.fsync !== 'never') fsyncSync(this.fd);
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    if (this.fd === undefined) {
+      throw new Error('Write-ahead log is not open');
+    }
+
+    // Switch logs in the same tick as the snapshot is captured, so the new log
+    // holds exactly the changes made after the snapshot
+    const sequence = this.sequence + 1;
+    const previous = this.fd;
+    this.fd = openSync(this.logPath(sequence), 'a');
+    this.sequence = sequence;
+    this.records = 0;
+    fsyncSync(previous);
+    closeSync(previous);
+
+    const temporary = `${this.snapshotPath(sequence)}.tmp`;
+    const stream = createWriteStream(temporary);
+    const finished = new Promise<void>((resolve, reject) => {
+      stream.once('close', resolve);
+      stream.once('error', reject);
+    });
+
+    await this.cache.dumpTo(stream, this.options);
+    stream.end();
+    await finished;
+
+    const fd = openSync(temporary, 'r');
+    fsyncSync(fd);
+    closeSync(fd);
+
+    await rename(temporary, this.snapshotPath(sequence));
+    this.removeFilesBefore(sequence);
+  }
+
+  private appendSet(key: K, value: V): void {
+    const expiry = this.cache.getExpiry(key);
+
+    // An entry that expired as it was set must not leave an older value to replay
+    if (!expiry) {
+      this.append({ op: 'delete', key });
+      return;
+    }
+
+    const { expiresAt, staleUntil } = expiry;
+    const record: SetRecord<K> = { op: 'set', key, value: this.serialize(value) };
+
+    if (expiresAt !== undefined) record.expiresAt = expiresAt;
+    if (staleUntil !== expiresAt) record.staleUntil = staleUntil;
+
+    this.append(record);
+  }
+
+  private append(record: LogRecord<K>): void {
+    if (this.fd === undefined) return;
+
+    writeSync(this.fd, `${JSON.stringify(record)}\n`);
+    if (this.fsync === 'always') fsyncSync(this.fd);
+
+    this.records++;
+    if (this.records >= this.compactAfterRecords) {
+      void this.compact().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Read the entries of a snapshot file, least recently used first
+   */
+  private async readSnapshot(
+    path: string,
+    entries: Map<K, LRUCacheSnapshotEntry<K, V>>,
+  ): Promise<number> {
+    const deserialize = this.options.deserialize ?? ((data: unknown) => data as V);
+    let header = true;
+    let read = 0;
+
+    for await (const line of readJsonLines(createReadStream(path))) {
+      if (header) {
+        const version = (line as { version?: unknown } | null)?.version;
+        if (version !== SNAPSHOT_VERSION) {
+          throw new Error(`Unsupported snapshot version: ${String(version)}`);
+        }
+        header = false;
+        continue;
+      }
+
+      const entry = line as LRUCacheSnapshotEntry<K, unknown>;
+      entries.set(entry.key, { ...entry, value: deserialize(entry.value) });
+      read++;
+    }
+
+    if (header) {
+      throw new Error('Invalid snapshot: missing header');
+    }
+
+    return read;
+  }
+
+  /**
+   * Apply the records of one log file to the entries being restored
+   * A set moves its key to the most recent end and a delete drops it.
+   * A torn final record, left by a crash mid-append, is ignored.
+   */
+  private async replay(
+    path: string,
+    entries: Map<K, LRUCacheSnapshotEntry<K, V>>,
+  ): Promise<number> {
+    const deserialize = this.options.deserialize ?? ((data: unknown) => data as V);
+    let replayed = 0;
+
+    for await (const line of readJsonLines(createReadStream(path), {
+      skipIncompleteLastLine: true,
+    })) {
+      const record = line as LogRecord<K>;
+
+      if (record.op === 'set') {
+        // Entries that expired while down are skipped by load()
+        entries.delete(record.key);
+        entries.set(record.key, {
+          key: record.key,
+          value: deserialize(record.value),
+          expiresAt: record.expiresAt,
+          staleUntil: record.staleUntil,
+        });
+      } else if (record.op === 'delete') {
+        entries.delete(record.key);
+      } else {
+        throw new Error(`Invalid write-ahead log record in ${path}`);
+      }
+
+      replayed++;
+    }
+
+    return replayed;
+  }
+
+  private listFiles(pattern: RegExp): number[] {
+    return readdirSync(this.directory)
+      .map((name) => pattern.exec(name)?.[1])
+      .filter((sequence): sequence is string => sequence !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  private removeFilesBefore(sequence: number): void {
+    for (const snapshot of this.listFiles(SNAPSHOT_FILE)) {
+      if (snapshot < sequence) unlinkSync(this.snapshotPath(snapshot));
+    }
+
+    for (const log of this.listFiles(LOG_FILE)) {
+      if (log < sequence) unlinkSync(this.logPath(log));
+    }
+  }
+
+  private snapshotPath(sequence: number): string {
+    return join(this.directory, `snapshot-${sequence}.jsonl`);
+  }
+
+  private logPath(sequence: number): string {
+    return join(this.directory, `wal-${sequence}.log`);
+  }
+}
+
+/**
+ * Cut a log back to its last complete record, so new records are not appended onto
+ * one torn by a crash mid-append
+ */
+function truncateTornRecord(path: string): void {
+  if (!existsSync(path)) return;
+
+  const contents = readFileSync(path);
+  const end = contents.lastIndexOf('\n') + 1;
+
+  if (end < contents.length) {
+    truncateSync(path, end);
+  }
+}
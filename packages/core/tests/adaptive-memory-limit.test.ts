@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { AdaptiveMemoryLimit } from '../src/core/adaptive-memory-limit';
+import { LRUCache } from '../src/core/lru-cache';
+
+describe('AdaptiveMemoryLimit', () => {
+  let pressure: number;
+  let cache: LRUCache<string, string>;
+
+  beforeEach(() => {
+    pressure = 0.7;
+    cache = new LRUCache<string, string>({
+      maxMemoryBytes: 100,
+      sizeCalculator: (value) => value.length,
+    });
+  });
+
+  function adaptive(): AdaptiveMemoryLimit {
+    return new AdaptiveMemoryLimit(cache, {
+      minBytes: 20,
+      maxBytes: 200,
+      heapUsage: () => pressure,
+    });
+  }
+
+  it('should reject invalid options', () => {
+    const heapUsage = () => 0.5;
+
+    expect(() => new AdaptiveMemoryLimit(cache, { minBytes: 0, maxBytes: 10 })).toThrow();
+    expect(() => new AdaptiveMemoryLimit(cache, { minBytes: 20, maxBytes: 10 })).toThrow();
+    expect(
+      () =>
+        new AdaptiveMemoryLimit(cache, {
+          minBytes: 1,
+          maxBytes: 10,
+          lowWatermark: 0.9,
+          highWatermark: 0.8,
+          heapUsage,
+        }),
+    ).toThrow();
+    expect(
+      () => new AdaptiveMemoryLimit(cache, { minBytes: 1, maxBytes: 10, step: 1, heapUsage }),
+    ).toThrow();
+  });
+
+  it('should leave the limit alone between the watermarks', () => {
+    expect(adaptive().check()).toBe(100);
+    expect(cache.limits.maxMemoryBytes).toBe(100);
+  });
+
+  it('should shrink below current usage under heap pressure', () => {
+    const evicted: string[] = [];
+    cache.on('dispose', (key, _value, reason) => evicted.push(`${key}:${reason}`));
+    cache.set('a', 'x'.repeat(20));
+    cache.set('b', 'x'.repeat(20));
+    pressure = 0.9;
+
+    expect(adaptive().check()).toBe(30);
+    expect(cache.memoryUsage).toBe(20);
+    expect(evicted).toEqual(['a:memory']);
+  });
+
+  it('should never go below the minimum', () => {
+    const limit = adaptive();
+    pressure = 0.95;
+
+    for (let i = 0; i < 10; i++) limit.check();
+
+    expect(cache.limits.maxMemoryBytes).toBe(20);
+  });
+
+  it('should grow back towards the maximum once the heap has room', () => {
+    const limit = adaptive();
+    pressure = 0.3;
+
+    expect(limit.check()).toBe(125);
+    for (let i = 0; i < 10; i++) limit.check();
+    expect(cache.limits.maxMemoryBytes).toBe(200);
+  });
+
+  describe('periodic checks', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should check every interval until stopped', () => {
+      const heapUsage = jest.fn(() => 0.5);
+      const limit = new AdaptiveMemoryLimit(cache, {
+        minBytes: 20,
+        maxBytes: 200,
+        intervalMs: 1000,
+        heapUsage,
+      });
+
+      limit.start();
+      jest.advanceTimersByTime(3000);
+      limit.stop();
+      jest.advanceTimersByTime(3000);
+
+      expect(heapUsage).toHaveBeenCalledTimes(4);
+    });
+  });
+});
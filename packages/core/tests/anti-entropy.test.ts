@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { AntiEntropy } from '../src/cluster/anti-entropy';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { Membership } from '../src/cluster/membership';
+import { RpcEndpoint } from '../src/cluster/rpc';
+import { LastWriterWinsResolver } from '../src/core/conflict-resolver';
+import { VersionedStore, VersionedStoreOptions } from '../src/core/versioned-store';
+
+interface Node {
+  store: VersionedStore<string, string>;
+  membership: Membership;
+  antiEntropy: AntiEntropy<string>;
+}
+
+function createNodes(
+  network: InMemoryNetwork,
+  ids: string[],
+  storeOptions: Partial<VersionedStoreOptions<string>> = {},
+): Node[] {
+  return ids.map((id) => {
+    const rpc = new RpcEndpoint(network.createTransport(id));
+    const store = new VersionedStore<string, string>({ nodeId: id, ...storeOptions });
+    const membership = new Membership(rpc, {
+      seeds: [ids[0]!],
+      protocolPeriodMs: 100,
+      pingTimeoutMs: 20,
+    });
+    const antiEntropy = new AntiEntropy(store, membership, rpc, { intervalMs: 50 });
+    return { store, membership, antiEntropy };
+  });
+}
+
+describe('AntiEntropy', () => {
+  let network: InMemoryNetwork;
+  let nodes: Node[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    network = new InMemoryNetwork();
+  });
+
+  afterEach(() => {
+    for (const node of nodes) {
+      node.antiEntropy.stop();
+      node.membership.stop();
+    }
+    nodes = [];
+    jest.useRealTimers();
+  });
+
+  async function startAll(): Promise<void> {
+    const started = Promise.all(nodes.map((node) => node.membership.start()));
+    await jest.advanceTimersByTimeAsync(10);
+    await started;
+    nodes.forEach((node) => node.antiEntropy.start());
+  }
+
+  it('should reject invalid options', () => {
+    const rpc = new RpcEndpoint(network.createTransport('a'));
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    const membership = new Membership(rpc);
+
+    expect(() => new AntiEntropy(store, membership, rpc, { intervalMs: 0 })).toThrow();
+    expect(() => new AntiEntropy(store, membership, rpc, { maxKeysPerRound: 0 })).toThrow();
+  });
+
+  it('should pull and push missing keys in a single exchange', async () => {
+    nodes = createNodes(network, ['a', 'b']);
+    const [a, b] = nodes as [Node, Node];
+
+    a.store.put('from-a', '1');
+    b.store.put('from-b', '2');
+
+    const result = a.antiEntropy.syncWith('b');
+    await jest.advanceTimersByTimeAsync(10);
+
+    await expect(result).resolves.toEqual({ pulled: 1, pushed: 1 });
+    expect(a.store.get('from-b')?.values).toEqual(['2']);
+    expect(b.store.get('from-a')?.values).toEqual(['1']);
+  });
+
+  it('should count completed and failed rounds', async () => {
+    nodes = createNodes(network, ['a', 'b']);
+    const [a, b] = nodes as [Node, Node];
+    b.store.put('k', 'v');
+
+    const result = a.antiEntropy.syncWith('b');
+    await jest.advanceTimersByTimeAsync(10);
+    await result;
+    const syncedAt = a.antiEntropy.stats().lastSyncAt;
+
+    network.disconnect('b');
+    const failed = a.antiEntropy.syncWith('b');
+    const rejected = expect(failed).rejects.toThrow();
+    await jest.advanceTimersByTimeAsync(1000);
+    await rejected;
+
+    expect(a.antiEntropy.stats()).toEqual({
+      rounds: 1,
+      failedRounds: 1,
+      keysPulled: 1,
+      keysPushed: 0,
+      lastSyncAt: syncedAt,
+    });
+    expect(syncedAt).toBeLessThanOrEqual(Date.now() - 1000);
+  });
+
+  it('should transfer nothing when replicas agree', async () => {
+    nodes = createNodes(network, ['a', 'b']);
+    const [a, b] = nodes as [Node, Node];
+
+    const version = a.store.put('k', 'v');
+    b.store.merge('k', [version]);
+
+    const result = a.antiEntropy.syncWith('b');
+    await jest.advanceTimersByTimeAsync(10);
+
+    await expect(result).resolves.toEqual({ pulled: 0, pushed: 0 });
+  });
+
+  it('should eventually replicate writes to every node', async () => {
+    nodes = createNodes(network, ['a', 'b', 'c']);
+    await startAll();
+
+    nodes[0]!.store.put('k1', 'v1');
+    nodes[2]!.store.put('k2', 'v2');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    for (const node of nodes) {
+      expect(node.store.get('k1')?.values).toEqual(['v1']);
+      expect(node.store.get('k2')?.values).toEqual(['v2']);
+    }
+  });
+
+  it('should replicate deletes and drop tombstones after their grace period', async () => {
+    nodes = createNodes(network, ['a', 'b', 'c'], { tombstoneGraceMs: 5000 });
+    await startAll();
+
+    nodes[0]!.store.put('k', 'v');
+    await jest.advanceTimersByTimeAsync(1000);
+    nodes[1]!.store.delete('k');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    for (const node of nodes) {
+      expect(node.store.has('k')).toBe(false);
+      expect(node.store.tombstoneCount).toBe(1);
+    }
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    for (const node of nodes) {
+      expect(node.store.getVersions('k')).toEqual([]);
+    }
+  });
+
+  it('should converge concurrent writes to the same siblings everywhere', async () => {
+    nodes = createNodes(network, ['a', 'b', 'c']);
+    await startAll();
+
+    nodes[0]!.store.put('k', 'from-a');
+    nodes[1]!.store.put('k', 'from-b');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    for (const node of nodes) {
+      expect(node.store.get('k')?.values.sort()).toEqual(['from-a', 'from-b']);
+    }
+  });
+
+  it('should resolve conflicts with the store resolver', async () => {
+    nodes = createNodes(network, ['a', 'b'], {
+      conflictResolver: new LastWriterWinsResolver<string>(),
+    });
+    await startAll();
+
+    nodes[0]!.store.put('k', 'older');
+    jest.setSystemTime(Date.now() + 1000);
+    nodes[1]!.store.put('k', 'newer');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(nodes[0]!.store.get('k')?.values).toEqual(['newer']);
+    expect(nodes[1]!.store.get('k')?.values).toEqual(['newer']);
+  });
+
+  it('should keep replicas within their memory limits', async () => {
+    const [a] = createNodes(network, ['a']);
+    const [b] = createNodes(network, ['b'], { maxMemoryBytes: 500 });
+    nodes = [a!, b!];
+
+    for (let i = 0; i < 100; i++) {
+      a!.store.put(`key-${i}`, 'x'.repeat(20));
+    }
+
+    const result = b!.antiEntropy.syncWith('a');
+    await jest.advanceTimersByTimeAsync(10);
+    await result;
+
+    expect(b!.store.size).toBeGreaterThan(0);
+    expect(b!.store.memoryUsage).toBeLessThanOrEqual(500);
+  });
+});
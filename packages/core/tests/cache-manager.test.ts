@@ -0,0 +1,151 @@
+import { describe, it, expect } from '@jest/globals';
+import { CacheManager } from '../src/core/cache-manager';
+
+const sizeCalculator = (value: string) => value.length;
+
+describe('CacheManager', () => {
+  it('should reject an invalid budget', () => {
+    expect(() => new CacheManager({ maxMemoryBytes: 0 })).toThrow(
+      'Maximum memory must be a positive number',
+    );
+  });
+
+  it('should create named caches', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 100 });
+    const users = manager.createCache<string, string>('users', { sizeCalculator });
+
+    users.set('a', 'xxx');
+
+    expect(manager.names).toEqual(['users']);
+    expect(manager.getCache('users')).toBe(users);
+    expect(manager.getCache('missing')).toBeUndefined();
+    expect(manager.memoryUsage).toBe(3);
+  });
+
+  it('should reject duplicate names and invalid options', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 100 });
+    manager.createCache('users', { minBytes: 60 });
+
+    expect(() => manager.createCache('users')).toThrow('Cache users already exists');
+    expect(() => manager.createCache('posts', { weight: 0 })).toThrow(
+      'Weight must be a positive number',
+    );
+    expect(() => manager.createCache('posts', { minBytes: 50 })).toThrow(
+      'Reserved memory must fit within the memory budget',
+    );
+  });
+
+  it('should evict across caches by global recency', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 30 });
+    const users = manager.createCache<string, string>('users', { sizeCalculator });
+    const posts = manager.createCache<string, string>('posts', { sizeCalculator });
+
+    users.set('a', 'x'.repeat(10));
+    posts.set('b', 'x'.repeat(10));
+    users.set('c', 'x'.repeat(10));
+    users.get('a');
+    posts.set('d', 'x'.repeat(10));
+
+    expect(posts.has('b')).toBe(false);
+    expect(users.has('a')).toBe(true);
+    expect(users.has('c')).toBe(true);
+    expect(manager.memoryUsage).toBe(30);
+
+    posts.set('e', 'x'.repeat(10));
+
+    expect(users.has('c')).toBe(false);
+    expect(manager.stats()).toMatchObject({
+      users: { size: 1, memoryUsage: 10, evictions: { memory: 1 } },
+      posts: { size: 2, memoryUsage: 20, evictions: { memory: 1 } },
+    });
+  });
+
+  it('should let idle caches give memory to busy ones', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 50 });
+    const idle = manager.createCache<string, string>('idle', { sizeCalculator });
+    const busy = manager.createCache<string, string>('busy', { sizeCalculator });
+
+    for (let i = 0; i < 5; i++) idle.set(`k${i}`, 'x'.repeat(10));
+    for (let i = 0; i < 5; i++) busy.set(`k${i}`, 'x'.repeat(10));
+
+    expect(idle.size).toBe(0);
+    expect(busy.size).toBe(5);
+  });
+
+  it('should keep entries of heavier caches longer', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 30 });
+    const heavy = manager.createCache<string, string>('heavy', { sizeCalculator, weight: 3 });
+    const light = manager.createCache<string, string>('light', { sizeCalculator });
+
+    heavy.set('a', 'x'.repeat(10));
+    light.set('b', 'x'.repeat(10));
+    light.set('c', 'x'.repeat(10));
+    light.set('d', 'x'.repeat(10));
+
+    // 'a' is older than 'b', but its age counts a third as much
+    expect(heavy.has('a')).toBe(true);
+    expect(light.has('b')).toBe(false);
+  });
+
+  it('should not evict into a cache reservation', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 30 });
+    const reserved = manager.createCache<string, string>('reserved', {
+      sizeCalculator,
+      minBytes: 10,
+    });
+    const other = manager.createCache<string, string>('other', { sizeCalculator });
+
+    reserved.set('a', 'x'.repeat(10));
+    for (let i = 0; i < 5; i++) other.set(`k${i}`, 'x'.repeat(10));
+
+    expect(reserved.has('a')).toBe(true);
+    expect(other.size).toBe(2);
+  });
+
+  it('should respect a cache limit lower than the budget', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 100 });
+    const cache = manager.createCache<string, string>('small', {
+      sizeCalculator,
+      maxMemoryBytes: 15,
+    });
+
+    cache.set('a', 'x'.repeat(10));
+    cache.set('b', 'x'.repeat(10));
+
+    expect(cache.limits.maxMemoryBytes).toBe(15);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should clear one cache or all of them', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 100 });
+    const users = manager.createCache<string, string>('users', { sizeCalculator });
+    const posts = manager.createCache<string, string>('posts', { sizeCalculator });
+    users.set('a', 'x');
+    posts.set('b', 'x');
+
+    manager.clear('users');
+    expect(users.size).toBe(0);
+    expect(posts.size).toBe(1);
+
+    manager.clear();
+    expect(posts.size).toBe(0);
+    expect(() => manager.clear('missing')).toThrow('Cache missing does not exist');
+  });
+
+  it('should stop managing removed caches', () => {
+    const manager = new CacheManager({ maxMemoryBytes: 20 });
+    const removed = manager.createCache<string, string>('removed', { sizeCalculator });
+    const kept = manager.createCache<string, string>('kept', { sizeCalculator });
+    removed.set('a', 'x'.repeat(10));
+
+    expect(manager.removeCache('removed')).toBe(true);
+    expect(manager.removeCache('removed')).toBe(false);
+    expect(removed.size).toBe(0);
+
+    removed.set('a', 'x'.repeat(10));
+    kept.set('b', 'x'.repeat(20));
+
+    expect(removed.has('a')).toBe(true);
+    expect(manager.names).toEqual(['kept']);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  CrdtResolver,
+  KeepAllSiblingsResolver,
+  LastWriterWinsResolver,
+  MergeFunctionResolver,
+} from '../src/core/conflict-resolver';
+import { VectorClock } from '../src/core/vector-clock';
+import { Versioned, VersionedStore } from '../src/core/versioned-store';
+import { ORSet, ORSetJSON } from '../src/crdt/or-set';
+import { PNCounter } from '../src/crdt/pn-counter';
+
+const version = <V>(value: V, nodeId: string, wallTime: number): Versioned<V> => ({
+  value,
+  clock: new VectorClock().increment(nodeId),
+  timestamp: { wallTime, logical: 0, nodeId },
+});
+
+describe('KeepAllSiblingsResolver', () => {
+  it('should keep every sibling', () => {
+    const siblings = [version('a', 'n1', 1), version('b', 'n2', 2)];
+    expect(new KeepAllSiblingsResolver<string>().resolve(siblings)).toEqual(siblings);
+  });
+});
+
+describe('LastWriterWinsResolver', () => {
+  it('should keep the version with the latest timestamp', () => {
+    const resolved = new LastWriterWinsResolver<string>().resolve([
+      version('old', 'n1', 1),
+      version('new', 'n2', 5),
+      version('mid', 'n3', 3),
+    ]);
+
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]?.value).toBe('new');
+  });
+
+  it('should give the winner a clock that supersedes every sibling', () => {
+    const siblings = [version('a', 'n1', 1), version('b', 'n2', 2)];
+    const [winner] = new LastWriterWinsResolver<string>().resolve(siblings);
+
+    for (const sibling of siblings) {
+      expect(winner?.clock.descends(sibling.clock)).toBe(true);
+    }
+  });
+
+  it('should let a later delete win', () => {
+    const [winner] = new LastWriterWinsResolver<string>().resolve([
+      version('v', 'n1', 1),
+      { ...version('', 'n2', 2), deleted: true },
+    ]);
+
+    expect(winner?.deleted).toBe(true);
+  });
+});
+
+describe('MergeFunctionResolver', () => {
+  it('should combine values with the merge function', () => {
+    const union = new MergeFunctionResolver<string[]>((a, b) => [...new Set([...a, ...b])].sort());
+
+    const [merged] = union.resolve([version(['x', 'y'], 'n1', 1), version(['y', 'z'], 'n2', 2)]);
+
+    expect(merged?.value).toEqual(['x', 'y', 'z']);
+    expect(merged?.clock.get('n1')).toBe(1);
+    expect(merged?.clock.get('n2')).toBe(1);
+    expect(merged?.timestamp.wallTime).toBe(2);
+  });
+
+  it('should keep concurrent values over tombstones', () => {
+    const concat = new MergeFunctionResolver<string>((a, b) => a + b);
+    const tombstone = { ...version('', 'n2', 2), deleted: true };
+
+    const [merged] = concat.resolve([version('x', 'n1', 1), tombstone]);
+
+    expect(merged?.value).toBe('x');
+    expect(merged?.deleted).toBeUndefined();
+    expect(merged?.clock.descends(tombstone.clock)).toBe(true);
+  });
+
+  it('should keep a tombstone when every sibling is deleted', () => {
+    const concat = new MergeFunctionResolver<string>((a, b) => a + b);
+
+    const [merged] = concat.resolve([
+      { ...version('', 'n1', 1), deleted: true },
+      { ...version('', 'n2', 2), deleted: true },
+    ]);
+
+    expect(merged?.deleted).toBe(true);
+  });
+});
+
+describe('VersionedStore conflict resolution', () => {
+  it('should apply the configured resolver when merging remote versions', () => {
+    const store = new VersionedStore<string, string>({
+      nodeId: 'n1',
+      conflictResolver: new LastWriterWinsResolver<string>(),
+    });
+
+    store.put('k', 'local');
+    store.merge('k', [version('remote', 'n2', Number.MAX_SAFE_INTEGER)]);
+
+    expect(store.get('k')?.values).toEqual(['remote']);
+  });
+
+  it('should not resurrect a losing version that arrives again', () => {
+    const store = new VersionedStore<string, string>({
+      nodeId: 'n1',
+      conflictResolver: new LastWriterWinsResolver<string>(),
+    });
+    const loser = version('loser', 'n2', 0);
+
+    store.put('k', 'local');
+    store.merge('k', [loser]);
+
+    expect(store.merge('k', [loser])).toBe(false);
+    expect(store.get('k')?.values).toEqual(['local']);
+  });
+
+  it('should keep siblings by default', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'n1' });
+
+    store.put('k', 'local');
+    store.merge('k', [version('remote', 'n2', 0)]);
+
+    expect(store.get('k')?.values).toHaveLength(2);
+  });
+});
+
+describe('CrdtResolver', () => {
+  it('should merge concurrent CRDT states into one value', () => {
+    const resolver = new CrdtResolver(PNCounter);
+    const left = new PNCounter().increment('n1', 2).toJSON();
+    const right = new PNCounter().increment('n2', -5).toJSON();
+
+    const [merged] = resolver.resolve([version(left, 'n1', 1), version(right, 'n2', 2)]);
+
+    expect(PNCounter.fromJSON(merged!.value).value).toBe(-3);
+  });
+
+  it('should converge replicas of a store without siblings', () => {
+    const options = { conflictResolver: new CrdtResolver(ORSet<string>) };
+    const a = new VersionedStore<string, ORSetJSON<string>>({ ...options, nodeId: 'n1' });
+    const b = new VersionedStore<string, ORSetJSON<string>>({ ...options, nodeId: 'n2' });
+
+    a.put('tags', new ORSet<string>().add('n1', 'red').toJSON());
+    b.put('tags', new ORSet<string>().add('n2', 'blue').toJSON());
+    a.merge('tags', b.get('tags')!.siblings);
+    b.merge('tags', a.get('tags')!.siblings);
+
+    for (const store of [a, b]) {
+      const { values } = store.get('tags')!;
+      expect(values).toHaveLength(1);
+      expect(ORSet.fromJSON(values[0]!).values().sort()).toEqual(['blue', 'red']);
+    }
+  });
+});
@@ -0,0 +1,424 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { Coordinator, CoordinatorOptions, QuorumError } from '../src/cluster/coordinator';
+import { HashRing } from '../src/cluster/hash-ring';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { RpcEndpoint } from '../src/cluster/rpc';
+import { VersionedStore } from '../src/core/versioned-store';
+import { PNCounter, PNCounterJSON } from '../src/crdt/pn-counter';
+
+interface Node {
+  id: string;
+  store: VersionedStore<string, string>;
+  coordinator: Coordinator<string>;
+}
+
+function createCluster(
+  network: InMemoryNetwork,
+  ids: string[],
+  replicationFactor = 3,
+  options: CoordinatorOptions = {},
+): Node[] {
+  const ring = new HashRing({ replicationFactor });
+  ids.forEach((id) => ring.addNode(id));
+
+  return ids.map((id) => {
+    const rpc = new RpcEndpoint(network.createTransport(id));
+    const store = new VersionedStore<string, string>({ nodeId: id });
+    return {
+      id,
+      store,
+      coordinator: new Coordinator(store, ring, rpc, { timeoutMs: 50, ...options }),
+    };
+  });
+}
+
+/**
+ * Resolve a pending promise while advancing fake timers
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  const result = promise.then(
+    (value) => ({ value }),
+    (error: unknown) => ({ error }),
+  );
+  await jest.advanceTimersByTimeAsync(500);
+  const outcome = await result;
+
+  if ('error' in outcome) throw outcome.error;
+  return outcome.value;
+}
+
+describe('Coordinator', () => {
+  let network: InMemoryNetwork;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    network = new InMemoryNetwork();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject invalid quorum settings', () => {
+    const [node] = createCluster(network, ['a']);
+    const ring = new HashRing();
+    const rpc = new RpcEndpoint(network.createTransport('x'));
+
+    expect(() => new Coordinator(node!.store, ring, rpc, { n: 3, r: 4 })).toThrow();
+    expect(() => new Coordinator(node!.store, ring, rpc, { n: 3, w: 0 })).toThrow();
+    expect(() => new Coordinator(node!.store, ring, rpc, { timeoutMs: 0 })).toThrow();
+  });
+
+  it('should write to and read from the replicas of a key', async () => {
+    const nodes = createCluster(network, ['a', 'b', 'c']);
+    const [a, b, c] = nodes as [Node, Node, Node];
+
+    await settle(a.coordinator.set('k', 'v'));
+    const result = await settle(b.coordinator.get('k'));
+
+    expect(result?.values).toEqual(['v']);
+    expect(a.store.has('k') && b.store.has('k') && c.store.has('k')).toBe(true);
+    expect(await settle(c.coordinator.has('k'))).toBe(true);
+  });
+
+  it('should return undefined for keys no replica has', async () => {
+    const [a] = createCluster(network, ['a', 'b', 'c']);
+    expect(await settle(a!.coordinator.get('missing'))).toBeUndefined();
+  });
+
+  it('should resolve siblings using the causal context', async () => {
+    const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+
+    await settle(a.coordinator.set('k', 'first'));
+    const { context } = (await settle(b.coordinator.get('k')))!;
+    await settle(b.coordinator.set('k', 'second', { context }));
+
+    expect((await settle(a.coordinator.get('k', { r: 3 })))?.values).toEqual(['second']);
+  });
+
+  it('should fail writes when too few replicas acknowledge', async () => {
+    const [a] = createCluster(network, ['a', 'b', 'c']);
+    network.disconnect('b');
+    network.disconnect('c');
+
+    const error = await settle(a!.coordinator.set('k', 'v')).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QuorumError);
+    expect(error).toMatchObject({ operation: 'set', key: 'k', required: 2, acknowledged: 1 });
+  });
+
+  it('should accept per-call quorum overrides', async () => {
+    const [a] = createCluster(network, ['a', 'b', 'c']);
+    network.disconnect('b');
+    network.disconnect('c');
+
+    await settle(a!.coordinator.set('k', 'v', { w: 1 }));
+    const result = await settle(a!.coordinator.get('k', { r: 1 }));
+
+    expect(result?.values).toEqual(['v']);
+    await expect(settle(a!.coordinator.get('k', { r: 2 }))).rejects.toBeInstanceOf(QuorumError);
+  });
+
+  it('should fit default quorums to a per-call N', async () => {
+    const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+
+    await settle(a.coordinator.set('k', 'v', { n: 1 }));
+
+    expect((await settle(b.coordinator.get('k', { n: 1 })))?.values).toEqual(['v']);
+    await expect(settle(a.coordinator.get('k', { n: 1, r: 2 }))).rejects.toThrow(
+      'R must be a positive integer no greater than N',
+    );
+  });
+
+  it('should fit default quorums to a configured N', async () => {
+    const [a, b] = createCluster(network, ['a', 'b', 'c'], 3, { n: 1 }) as [Node, Node, Node];
+
+    await settle(a.coordinator.set('k', 'v'));
+
+    expect((await settle(b.coordinator.get('k')))?.values).toEqual(['v']);
+    expect(
+      () =>
+        new Coordinator(a.store, new HashRing(), new RpcEndpoint(network.createTransport('x')), {
+          n: 1,
+          w: 2,
+        }),
+    ).toThrow('W must be a positive integer no greater than N');
+  });
+
+  it('should forward writes to a replica when the local node is not one', async () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    const nodes = createCluster(network, ids, 1);
+    const ring = new HashRing({ replicationFactor: 1 });
+    ids.forEach((id) => ring.addNode(id));
+
+    const key = 'forwarded';
+    const outsider = nodes.find((node) => !ring.owns(node.id, key))!;
+
+    await settle(outsider.coordinator.set(key, 'v', { w: 1, r: 1 }));
+
+    expect(outsider.store.has(key)).toBe(false);
+    expect((await settle(outsider.coordinator.get(key, { r: 1 })))?.values).toEqual(['v']);
+  });
+
+  it('should delete from the replicas of a key', async () => {
+    const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+
+    await settle(a.coordinator.set('k', 'v', { w: 3 }));
+
+    expect(await settle(b.coordinator.delete('k', { w: 3 }))).toBe(true);
+    expect(await settle(a.coordinator.get('k', { r: 3 }))).toBeUndefined();
+    expect(await settle(b.coordinator.delete('k'))).toBe(false);
+  });
+
+  it('should not resurrect deleted keys from a replica that missed the delete', async () => {
+    const [a, , c] = createCluster(network, ['a', 'b', 'c'], 3, {
+      hintedHandoff: false,
+    }) as [Node, Node, Node];
+    await settle(a.coordinator.set('k', 'v', { w: 3 }));
+
+    network.disconnect('c');
+    expect(await settle(a.coordinator.delete('k'))).toBe(true);
+    network.reconnect('c');
+
+    expect(c.store.has('k')).toBe(true);
+    expect(await settle(a.coordinator.get('k', { r: 3 }))).toBeUndefined();
+    expect(c.store.has('k')).toBe(false);
+    expect(c.store.tombstoneCount).toBe(1);
+  });
+
+  it('should fail deletes when too few replicas acknowledge', async () => {
+    const [a] = createCluster(network, ['a', 'b', 'c']);
+    await settle(a!.coordinator.set('k', 'v', { w: 3 }));
+    network.disconnect('b');
+
+    await expect(settle(a!.coordinator.delete('k', { w: 3 }))).rejects.toMatchObject({
+      operation: 'delete',
+      required: 3,
+      acknowledged: 2,
+    });
+  });
+
+  it('should keep hints for replicas that miss a write and replay them', async () => {
+    const [a, , c] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+    network.disconnect('c');
+
+    await settle(a.coordinator.set('k', 'v'));
+
+    expect(c.store.has('k')).toBe(false);
+    expect(a.coordinator.hints?.pendingFor('c')).toBe(1);
+
+    network.reconnect('c');
+    expect(await settle(a.coordinator.hints!.replay('c'))).toBe(1);
+    expect(c.store.get('k')?.values).toEqual(['v']);
+    expect(a.coordinator.hints?.size).toBe(0);
+  });
+
+  it('should replay hints to a replica that was never marked down', async () => {
+    const [a, , c] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+    a.coordinator.hints!.start();
+
+    // No membership is following the cluster, so only periodic replay can deliver the hint
+    network.disconnect('c');
+    await settle(a.coordinator.set('k', 'v'));
+    expect(a.coordinator.hints?.pendingFor('c')).toBe(1);
+
+    network.reconnect('c');
+    await jest.advanceTimersByTimeAsync(10_000);
+    a.coordinator.hints!.stop();
+
+    expect(c.store.get('k')?.values).toEqual(['v']);
+    expect(a.coordinator.hints?.size).toBe(0);
+  });
+
+  it('should not keep hints when hinted handoff is disabled', async () => {
+    const [a] = createCluster(network, ['a', 'b', 'c'], 3, { hintedHandoff: false });
+    network.disconnect('c');
+
+    await settle(a!.coordinator.set('k', 'v'));
+
+    expect(a!.coordinator.hints).toBeUndefined();
+  });
+
+  it('should repair stale replicas on read', async () => {
+    const [a, b, c] = createCluster(network, ['a', 'b', 'c'], 3, {
+      hintedHandoff: false,
+    }) as [Node, Node, Node];
+    await settle(a.coordinator.set('k', 'first', { w: 3 }));
+
+    network.disconnect('c');
+    const { context } = (await settle(a.coordinator.get('k')))!;
+    await settle(a.coordinator.set('k', 'second', { context }));
+    network.reconnect('c');
+
+    expect(c.store.get('k')?.values).toEqual(['first']);
+    expect((await settle(b.coordinator.get('k', { r: 3 })))?.values).toEqual(['second']);
+    expect(c.store.get('k')?.values).toEqual(['second']);
+  });
+
+  it('should leave stale replicas alone when read repair is disabled', async () => {
+    const [a, , c] = createCluster(network, ['a', 'b', 'c'], 3, {
+      hintedHandoff: false,
+      readRepair: false,
+    }) as [Node, Node, Node];
+    await settle(a.coordinator.set('k', 'first', { w: 3 }));
+
+    network.disconnect('c');
+    const { context } = (await settle(a.coordinator.get('k')))!;
+    await settle(a.coordinator.set('k', 'second', { context }));
+    network.reconnect('c');
+
+    expect((await settle(a.coordinator.get('k', { r: 3 })))?.values).toEqual(['second']);
+    expect(c.store.get('k')?.values).toEqual(['first']);
+  });
+
+  describe('bulk operations', () => {
+    const keys = Array.from({ length: 20 }, (_, i) => `key${i}`);
+
+    function requestsByMethod(spy: { mock: { calls: unknown[][] } }): Record<string, number> {
+      const counts: Record<string, number> = {};
+      for (const [, method] of spy.mock.calls) {
+        counts[method as string] = (counts[method as string] ?? 0) + 1;
+      }
+      return counts;
+    }
+
+    it('should write and read many keys with one message per replica', async () => {
+      const [a, b, c] = createCluster(network, ['a', 'b', 'c', 'd', 'e']) as Node[] as [
+        Node,
+        Node,
+        Node,
+      ];
+      const request = jest.spyOn(RpcEndpoint.prototype, 'request');
+
+      await settle(a.coordinator.setMany(keys.map((key) => [key, `${key}-value`])));
+      const writes = requestsByMethod(request);
+      request.mockClear();
+      const results = await settle(b.coordinator.getMany([...keys, 'missing']));
+      const reads = requestsByMethod(request);
+      request.mockRestore();
+
+      expect(results.size).toBe(keys.length);
+      expect(results.get('key3')?.values).toEqual(['key3-value']);
+      expect(results.has('missing')).toBe(false);
+      expect((await settle(c.coordinator.get('key7')))?.values).toEqual(['key7-value']);
+
+      // At most one batch from each node to each other node, instead of one per key
+      expect(writes['coordinator.replicate']).toBeUndefined();
+      expect(writes['coordinator.forward-write']).toBeUndefined();
+      expect(writes['coordinator.forward-write-many']).toBeLessThanOrEqual(4);
+      expect(writes['coordinator.replicate-many']).toBeLessThanOrEqual(5 * 4);
+      expect(reads).toEqual({ 'coordinator.get-many': 4 });
+    });
+
+    it('should forward writes in batches when the local node is not a replica', async () => {
+      const ids = ['a', 'b', 'c', 'd', 'e'];
+      const nodes = createCluster(network, ids, 1);
+      const request = jest.spyOn(RpcEndpoint.prototype, 'request');
+
+      await settle(
+        nodes[0]!.coordinator.setMany(
+          keys.map((key) => [key, 'v']),
+          { w: 1 },
+        ),
+      );
+      const counts = requestsByMethod(request);
+      request.mockRestore();
+
+      expect(counts['coordinator.forward-write']).toBeUndefined();
+      expect(counts['coordinator.forward-write-many']).toBeLessThanOrEqual(4);
+      expect(nodes.reduce((total, node) => total + node.store.size, 0)).toBe(keys.length);
+    });
+
+    it('should apply causal contexts from getMany', async () => {
+      const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+      await settle(a.coordinator.setMany([['k', 'first']]));
+
+      const read = await settle(b.coordinator.getMany(['k']));
+      const contexts = new Map([...read].map(([key, result]) => [key, result.context]));
+      await settle(b.coordinator.setMany([['k', 'second']], { contexts }));
+
+      expect((await settle(a.coordinator.get('k')))?.values).toEqual(['second']);
+    });
+
+    it('should delete many keys, skipping those not found', async () => {
+      const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+      await settle(
+        a.coordinator.setMany(
+          keys.map((key) => [key, 'v']),
+          { w: 3 },
+        ),
+      );
+
+      expect(await settle(b.coordinator.deleteMany([...keys.slice(0, 5), 'missing']))).toBe(5);
+      expect((await settle(a.coordinator.getMany(keys, { r: 3 }))).size).toBe(15);
+    });
+
+    it('should fail keys whose quorum is not reached', async () => {
+      const [a] = createCluster(network, ['a', 'b', 'c']);
+      network.disconnect('b');
+      network.disconnect('c');
+
+      await expect(settle(a!.coordinator.setMany([['k', 'v']]))).rejects.toMatchObject({
+        operation: 'set',
+        key: 'k',
+        acknowledged: 1,
+      });
+      await expect(settle(a!.coordinator.getMany(['k']))).rejects.toBeInstanceOf(QuorumError);
+      expect(a!.coordinator.hints?.size).toBe(2);
+    });
+  });
+
+  describe('atomic operations', () => {
+    it('should compare and set against the context read from the replicas', async () => {
+      const [a, b] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+      await settle(a.coordinator.set('k', 'v1'));
+      const { context } = (await settle(a.coordinator.get('k')))!;
+
+      expect(await settle(b.coordinator.compareAndSet('k', context, 'v2'))).toBe(true);
+      expect(await settle(a.coordinator.compareAndSet('k', context, 'v3'))).toBe(false);
+      expect((await settle(a.coordinator.get('k')))?.values).toEqual(['v2']);
+    });
+
+    it('should only create missing keys when no context is expected', async () => {
+      const [a] = createCluster(network, ['a', 'b', 'c']);
+
+      expect(await settle(a!.coordinator.compareAndSet('k', undefined, 'v1'))).toBe(true);
+      expect(await settle(a!.coordinator.compareAndSet('k', undefined, 'v2'))).toBe(false);
+    });
+
+    it('should keep concurrent increments from every coordinator', async () => {
+      const ring = new HashRing({ replicationFactor: 3 });
+      const ids = ['a', 'b', 'c', 'd'];
+      ids.forEach((id) => ring.addNode(id));
+      const coordinators = ids.map(
+        (id) =>
+          new Coordinator(
+            new VersionedStore<string, PNCounterJSON>({ nodeId: id }),
+            ring,
+            new RpcEndpoint(network.createTransport(id)),
+            { timeoutMs: 50 },
+          ),
+      );
+
+      await settle(
+        Promise.all(coordinators.map((coordinator) => coordinator.increment('hits', 2))),
+      );
+      await settle(coordinators[0]!.increment('hits', -3));
+      const result = await settle(coordinators[1]!.get('hits', { r: 3 }));
+
+      expect(PNCounter.mergeAll(result!.values).value).toBe(5);
+    });
+
+    it('should refuse to increment a key that does not hold a counter', async () => {
+      const [a] = createCluster(network, ['a', 'b', 'c']) as [Node, Node, Node];
+      await settle(a.coordinator.set('k', 'text'));
+
+      const counters = a.coordinator as Coordinator<unknown> as Coordinator<PNCounterJSON>;
+
+      await expect(settle(counters.increment('k'))).rejects.toThrow(
+        'Key k does not hold a counter',
+      );
+      expect(a.store.get('k')?.values).toEqual(['text']);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { CountMinSketch } from '../src/components/count-min-sketch';
+import { hashString } from '../src/components/hash';
+
+describe('CountMinSketch', () => {
+  it('should reject invalid widths', () => {
+    expect(() => new CountMinSketch(0)).toThrow();
+    expect(() => new CountMinSketch(Infinity)).toThrow();
+    expect(() => new CountMinSketch(16, 0)).toThrow();
+  });
+
+  it('should round the width up to a power of two', () => {
+    expect(new CountMinSketch(1).width).toBe(16);
+    expect(new CountMinSketch(100).width).toBe(128);
+  });
+
+  it('should estimate how often items were recorded', () => {
+    const sketch = new CountMinSketch(64);
+
+    for (let i = 0; i < 5; i++) sketch.increment(hashString('hot'));
+    sketch.increment(hashString('cold'));
+
+    expect(sketch.estimate(hashString('hot'))).toBe(5);
+    expect(sketch.estimate(hashString('cold'))).toBe(1);
+    expect(sketch.estimate(hashString('never'))).toBe(0);
+  });
+
+  it('should saturate counters at 15', () => {
+    const sketch = new CountMinSketch(16);
+
+    for (let i = 0; i < 20; i++) sketch.increment(hashString('hot'));
+
+    expect(sketch.estimate(hashString('hot'))).toBe(15);
+  });
+
+  it('should halve counts once ten times its width has been recorded', () => {
+    const sketch = new CountMinSketch(16);
+    const hot = hashString('hot');
+
+    for (let i = 0; i < 15; i++) sketch.increment(hot);
+
+    let recorded = 15;
+    while (sketch.estimate(hot) === 15 && recorded < 1000) {
+      sketch.increment(hashString(`key${recorded++}`));
+    }
+
+    expect(recorded).toBeGreaterThanOrEqual(160);
+    expect(recorded).toBeLessThan(1000);
+    expect(sketch.estimate(hot)).toBeLessThanOrEqual(8);
+  });
+
+  it('should keep its counts when widened', () => {
+    const sketch = new CountMinSketch(16);
+    for (let i = 0; i < 5; i++) sketch.increment(hashString('hot'));
+
+    sketch.ensureCapacity(100);
+
+    expect(sketch.width).toBe(128);
+    expect(sketch.estimate(hashString('hot'))).toBe(5);
+  });
+
+  it('should forget everything when cleared', () => {
+    const sketch = new CountMinSketch(16);
+    sketch.increment(hashString('a'));
+
+    sketch.clear();
+
+    expect(sketch.estimate(hashString('a'))).toBe(0);
+  });
+});
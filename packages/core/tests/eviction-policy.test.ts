@@ -0,0 +1,157 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ARCPolicy,
+  createEvictionPolicy,
+  EvictionPolicy,
+  LFUPolicy,
+  WTinyLFUPolicy,
+} from '../src/core/eviction-policy';
+
+/**
+ * Drive a policy the way a cache holding at most `capacity` keys would
+ * @returns The keys the policy evicted, in order
+ */
+function simulate(policy: EvictionPolicy<string>, capacity: number, trace: string[]): string[] {
+  const cached = new Set<string>();
+  const evicted: string[] = [];
+
+  for (const key of trace) {
+    if (cached.has(key)) {
+      policy.touch(key);
+      continue;
+    }
+
+    if (cached.size >= capacity) {
+      const victim = policy.victim()!;
+      cached.delete(victim);
+      policy.remove(victim, true);
+      evicted.push(victim);
+    }
+
+    cached.add(key);
+    policy.insert(key);
+  }
+
+  return evicted;
+}
+
+describe('createEvictionPolicy', () => {
+  it('should create the built-in policies', () => {
+    expect(createEvictionPolicy('lru')).toBeUndefined();
+    expect(createEvictionPolicy('lfu')).toBeInstanceOf(LFUPolicy);
+    expect(createEvictionPolicy('w-tinylfu')).toBeInstanceOf(WTinyLFUPolicy);
+    expect(createEvictionPolicy('arc')).toBeInstanceOf(ARCPolicy);
+    expect(() => createEvictionPolicy('fifo' as 'lru')).toThrow('Unknown eviction policy: fifo');
+  });
+});
+
+describe('LFUPolicy', () => {
+  it('should evict the least frequently used key', () => {
+    const evicted = simulate(new LFUPolicy(), 2, ['a', 'a', 'b', 'c', 'b', 'd']);
+
+    expect(evicted).toEqual(['b', 'c', 'b']);
+  });
+
+  it('should evict the least recently used key among equally used ones', () => {
+    const evicted = simulate(new LFUPolicy(), 3, ['a', 'b', 'c', 'b', 'a', 'd']);
+
+    expect(evicted).toEqual(['c']);
+  });
+
+  it('should forget removed keys', () => {
+    const policy = new LFUPolicy<string>();
+    policy.insert('a');
+    policy.insert('b');
+    policy.touch('b');
+
+    policy.remove('a');
+    expect(policy.victim()).toBe('b');
+
+    policy.clear();
+    expect(policy.victim()).toBeUndefined();
+  });
+});
+
+describe('WTinyLFUPolicy', () => {
+  it('should reject invalid segment ratios', () => {
+    expect(() => new WTinyLFUPolicy(0)).toThrow();
+    expect(() => new WTinyLFUPolicy(0.01, 1)).toThrow();
+  });
+
+  it('should keep frequently used keys through a scan', () => {
+    const hot = Array.from({ length: 50 }, (_, i) => `hot${i}`);
+    const scan = Array.from({ length: 500 }, (_, i) => `scan${i}`);
+    const trace = [...hot, ...hot, ...hot, ...scan, ...hot];
+
+    const evicted = simulate(new WTinyLFUPolicy(), 100, trace);
+
+    expect(evicted.filter((key) => key.startsWith('hot')).length).toBeLessThanOrEqual(1);
+  });
+
+  it('should admit new keys that become popular', () => {
+    const policy = new WTinyLFUPolicy<string>();
+    const initial = Array.from({ length: 100 }, (_, i) => `old${i}`);
+    const trace = [...initial];
+    for (let round = 0; round < 5; round++) trace.push('new', ...initial.slice(0, 10));
+
+    simulate(policy, 100, trace);
+    const evicted = simulate(policy, 100, ['new', 'new', 'other']);
+
+    expect(evicted).not.toContain('new');
+  });
+
+  it('should not change its segments when asked for a victim', () => {
+    const policy = new WTinyLFUPolicy<string>(0.5);
+    policy.insert('a');
+    policy.insert('b');
+    policy.touch('a');
+    policy.touch('b');
+    policy.touch('b');
+
+    // 'b' is used more often, so it takes the place of 'a' once 'a' is evicted
+    expect(policy.victim()).toBe('a');
+    expect(policy.victim()).toBe('a');
+
+    policy.remove('a', true);
+    expect(policy.victim()).toBe('b');
+  });
+
+  it('should support keys of any type', () => {
+    const policy = new WTinyLFUPolicy<object>();
+    const key = {};
+    policy.insert(key);
+    policy.touch(key);
+
+    expect(policy.victim()).toBe(key);
+  });
+});
+
+describe('ARCPolicy', () => {
+  it('should protect keys used twice from a stream of new keys', () => {
+    const trace = ['a', 'b', 'a', 'b', 'c', 'd', 'e', 'f'];
+
+    const evicted = simulate(new ARCPolicy(), 3, trace);
+
+    expect(evicted).not.toContain('a');
+    expect(evicted).not.toContain('b');
+  });
+
+  it('should favour recency after misses on recently evicted keys', () => {
+    const trace = ['a', 'a', 'b', 'b', 'c', 'd', 'c', 'e', 'd'];
+
+    const evicted = simulate(new ARCPolicy(), 3, trace);
+
+    // Misses on c and d, just evicted from t1, grow its target until t2 gives up a and b
+    expect(evicted).toEqual(['c', 'd', 'a', 'b']);
+  });
+
+  it('should not remember deleted keys', () => {
+    const policy = new ARCPolicy<string>();
+    policy.insert('a');
+    policy.insert('b');
+
+    policy.remove('a', false);
+
+    expect(policy.victim()).toBe('b');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateSize } from '../src/components/size-estimator';
+import { GCounter } from '../src/crdt/g-counter';
+
+describe('GCounter', () => {
+  it('should sum the totals of every node', () => {
+    const counter = new GCounter().increment('a', 2).increment('b').increment('a');
+
+    expect(counter.value).toBe(4);
+    expect(counter.toJSON()).toEqual({ a: 3, b: 1 });
+  });
+
+  it('should reject negative and non-finite deltas', () => {
+    expect(() => new GCounter().increment('a', -1)).toThrow(
+      'Delta must be a non-negative finite number',
+    );
+    expect(() => new GCounter().increment('a', Infinity)).toThrow(
+      'Delta must be a non-negative finite number',
+    );
+  });
+
+  it('should merge idempotently, commutatively and associatively', () => {
+    const a = new GCounter().increment('a', 2);
+    const b = new GCounter().increment('b', 3);
+    const c = a.increment('a', 5);
+
+    expect(a.merge(b).toJSON()).toEqual(b.merge(a).toJSON());
+    expect(a.merge(b).merge(c).toJSON()).toEqual(a.merge(b.merge(c)).toJSON());
+    expect(c.merge(a).merge(a).value).toBe(7);
+  });
+
+  it('should produce deltas holding only unseen totals', () => {
+    const remote = new GCounter().increment('a', 1).increment('b', 1);
+    const local = remote.increment('b', 2).increment('c');
+
+    const delta = local.delta(remote);
+
+    expect(delta.toJSON()).toEqual({ b: 3, c: 1 });
+    expect(remote.merge(delta).toJSON()).toEqual(local.toJSON());
+  });
+
+  it('should round-trip through JSON', () => {
+    const counter = new GCounter().increment('a', 3);
+
+    expect(GCounter.fromJSON(JSON.stringify(counter)).value).toBe(3);
+    expect(() => GCounter.fromJSON({ a: -1 })).toThrow('Invalid G-counter total for node "a"');
+    expect(() => GCounter.fromJSON('[]')).toThrow('Invalid G-counter: expected an object');
+  });
+
+  it('should report the size of its serialized form', () => {
+    const counter = new GCounter().increment('node-1', 5);
+
+    expect(estimateSize(counter)).toBe(estimateSize(counter.toJSON()));
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { HashRing } from '../src/cluster/hash-ring';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { Membership } from '../src/cluster/membership';
+import { RpcEndpoint } from '../src/cluster/rpc';
+import { VersionedStore } from '../src/core/versioned-store';
+
+const keys = Array.from({ length: 2000 }, (_, i) => `key-${i}`);
+
+function ringWith(nodeIds: string[], replicationFactor = 3): HashRing {
+  const ring = new HashRing({ replicationFactor });
+  nodeIds.forEach((nodeId) => ring.addNode(nodeId));
+  return ring;
+}
+
+describe('HashRing', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new HashRing({ virtualNodes: 0 })).toThrow();
+    expect(() => new HashRing({ replicationFactor: 0 })).toThrow();
+    expect(() => new HashRing({ replicationFactor: 1.5 })).toThrow();
+  });
+
+  it('should return an empty preference list for an empty ring', () => {
+    expect(new HashRing().getPreferenceList('key')).toEqual([]);
+    expect(new HashRing().getPrimary('key')).toBeUndefined();
+  });
+
+  it('should add and remove nodes', () => {
+    const ring = new HashRing();
+
+    expect(ring.addNode('a')).toBe(true);
+    expect(ring.addNode('a')).toBe(false);
+    expect(ring.nodes).toEqual(['a']);
+    expect(ring.removeNode('a')).toBe(true);
+    expect(ring.removeNode('a')).toBe(false);
+    expect(ring.has('a')).toBe(false);
+  });
+
+  it('should return distinct replicas up to the replication factor', () => {
+    const ring = ringWith(['a', 'b', 'c', 'd', 'e']);
+
+    for (const key of keys.slice(0, 100)) {
+      const replicas = ring.getPreferenceList(key);
+      expect(replicas).toHaveLength(3);
+      expect(new Set(replicas).size).toBe(3);
+      expect(replicas[0]).toBe(ring.getPrimary(key));
+    }
+  });
+
+  it('should cap the preference list at the number of nodes', () => {
+    const ring = ringWith(['a', 'b']);
+    expect(ring.getPreferenceList('key').sort()).toEqual(['a', 'b']);
+  });
+
+  it('should be deterministic across rings built in different orders', () => {
+    const left = ringWith(['a', 'b', 'c', 'd']);
+    const right = ringWith(['d', 'c', 'b', 'a']);
+
+    for (const key of keys.slice(0, 200)) {
+      expect(left.getPreferenceList(key)).toEqual(right.getPreferenceList(key));
+    }
+  });
+
+  it('should spread keys evenly across nodes', () => {
+    const ring = ringWith(['a', 'b', 'c', 'd']);
+    const counts = new Map<string, number>();
+
+    for (const key of keys) {
+      const primary = ring.getPrimary(key)!;
+      counts.set(primary, (counts.get(primary) ?? 0) + 1);
+    }
+
+    for (const count of counts.values()) {
+      expect(count).toBeGreaterThan(keys.length / 4 / 2);
+      expect(count).toBeLessThan((keys.length / 4) * 2);
+    }
+  });
+
+  it('should only move keys to a node that joins', () => {
+    const ring = ringWith(['a', 'b', 'c', 'd'], 1);
+    const before = new Map(keys.map((key) => [key, ring.getPrimary(key)]));
+
+    ring.addNode('e');
+
+    let moved = 0;
+    for (const key of keys) {
+      const after = ring.getPrimary(key);
+      if (after !== before.get(key)) {
+        expect(after).toBe('e');
+        moved++;
+      }
+    }
+
+    expect(moved).toBeGreaterThan(0);
+    expect(moved).toBeLessThan(keys.length / 3);
+  });
+
+  it('should list the keys a node no longer owns after a rebalance', () => {
+    const ring = ringWith(['a', 'b'], 1);
+    const store = new VersionedStore<string, number>({ nodeId: 'a', maxItems: 1000 });
+
+    keys
+      .slice(0, 500)
+      .filter((key) => ring.owns('a', key))
+      .forEach((key, i) => store.put(key, i));
+    expect(ring.unownedKeys('a', store.keys())).toEqual([]);
+
+    ring.addNode('c');
+    const unowned = ring.unownedKeys('a', store.keys());
+
+    expect(unowned.length).toBeGreaterThan(0);
+    for (const key of unowned) {
+      expect(ring.getPrimary(key)).toBe('c');
+    }
+  });
+
+  it('should follow membership changes', async () => {
+    jest.useFakeTimers();
+    const network = new InMemoryNetwork();
+    const options = {
+      seeds: ['a'],
+      protocolPeriodMs: 100,
+      pingTimeoutMs: 20,
+      suspicionTimeoutMs: 300,
+    };
+    const nodes = ['a', 'b', 'c'].map(
+      (id) => new Membership(new RpcEndpoint(network.createTransport(id)), options),
+    );
+    const ring = new HashRing();
+
+    const started = Promise.all(nodes.map((node) => node.start()));
+    await jest.advanceTimersByTimeAsync(10);
+    await started;
+
+    const detach = ring.attach(nodes[0]!);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(ring.nodes.sort()).toEqual(['a', 'b', 'c']);
+
+    network.disconnect('c');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(ring.nodes.sort()).toEqual(['a', 'b']);
+
+    detach();
+    nodes.forEach((node) => node.stop());
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { HintedHandoff } from '../src/cluster/hinted-handoff';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { Membership } from '../src/cluster/membership';
+import { RpcEndpoint } from '../src/cluster/rpc';
+import { VectorClock } from '../src/core/vector-clock';
+import { Versioned } from '../src/core/versioned-store';
+
+function version(value: string, counter: number): Versioned<string> {
+  return {
+    value,
+    clock: new VectorClock([['a', { counter, timestamp: counter }]]),
+    timestamp: { wallTime: counter, logical: 0, nodeId: 'a' },
+  };
+}
+
+describe('HintedHandoff', () => {
+  let delivered: Array<[string, string, string[]]>;
+  let failing: Set<string>;
+  let handoff: HintedHandoff<string>;
+
+  beforeEach(() => {
+    delivered = [];
+    failing = new Set();
+    handoff = new HintedHandoff<string>(async (target, key, versions) => {
+      if (failing.has(target)) throw new Error('unreachable');
+      delivered.push([target, key, versions.map((v) => v.value)]);
+    });
+  });
+
+  it('should reject an invalid replay interval', () => {
+    expect(() => new HintedHandoff(async () => undefined, { replayIntervalMs: 0 })).toThrow(
+      'Hint replay interval must be a positive number',
+    );
+  });
+
+  it('should hold hints per target and key', () => {
+    handoff.add('b', 'k1', [version('v1', 1)]);
+    handoff.add('b', 'k2', [version('v2', 1)]);
+    handoff.add('c', 'k1', [version('v1', 1)]);
+
+    expect(handoff.size).toBe(3);
+    expect(handoff.pendingFor('b')).toBe(2);
+    expect(handoff.pendingFor('c')).toBe(1);
+    expect(handoff.pendingFor('d')).toBe(0);
+  });
+
+  it('should drop hinted versions superseded by newer ones', async () => {
+    handoff.add('b', 'k', [version('old', 1)]);
+    handoff.add('b', 'k', [version('new', 2)]);
+
+    expect(await handoff.replay('b')).toBe(1);
+    expect(delivered).toEqual([['b', 'k', ['new']]]);
+  });
+
+  it('should remove hints once they are delivered', async () => {
+    handoff.add('b', 'k1', [version('v1', 1)]);
+    handoff.add('b', 'k2', [version('v2', 1)]);
+    handoff.add('c', 'k1', [version('v1', 1)]);
+
+    expect(await handoff.replay('b')).toBe(2);
+    expect(handoff.pendingFor('b')).toBe(0);
+    expect(handoff.pendingFor('c')).toBe(1);
+  });
+
+  it('should keep hints when the target is still unreachable', async () => {
+    handoff.add('b', 'k1', [version('v1', 1)]);
+    handoff.add('b', 'k2', [version('v2', 1)]);
+    failing.add('b');
+
+    expect(await handoff.replay('b')).toBe(0);
+    expect(handoff.pendingFor('b')).toBe(2);
+
+    failing.delete('b');
+    expect(await handoff.replay('b')).toBe(2);
+  });
+
+  it('should bound the number of hints', () => {
+    const bounded = new HintedHandoff<string>(async () => undefined, { maxHints: 2 });
+
+    bounded.add('b', 'k1', [version('v1', 1)]);
+    bounded.add('b', 'k2', [version('v2', 1)]);
+    bounded.add('b', 'k3', [version('v3', 1)]);
+
+    expect(bounded.size).toBe(2);
+  });
+
+  it('should bound the memory used by hints', () => {
+    const bounded = new HintedHandoff<string>(async () => undefined, { maxMemoryBytes: 500 });
+
+    for (let i = 0; i < 20; i++) {
+      bounded.add('b', `k${i}`, [version('x'.repeat(50), 1)]);
+    }
+
+    expect(bounded.memoryUsage).toBeLessThanOrEqual(500);
+    expect(bounded.size).toBeLessThan(20);
+  });
+
+  describe('over time', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      handoff.stop();
+      jest.useRealTimers();
+    });
+
+    it('should replay every target periodically once started', async () => {
+      handoff.add('b', 'k1', [version('v1', 1)]);
+      handoff.add('c', 'k2', [version('v2', 1)]);
+      failing.add('c');
+
+      handoff.start();
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(delivered).toEqual([['b', 'k1', ['v1']]]);
+      expect(handoff.pendingFor('c')).toBe(1);
+
+      failing.delete('c');
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(delivered).toEqual([
+        ['b', 'k1', ['v1']],
+        ['c', 'k2', ['v2']],
+      ]);
+      expect(handoff.size).toBe(0);
+
+      handoff.stop();
+      handoff.add('b', 'k3', [version('v3', 1)]);
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(handoff.pendingFor('b')).toBe(1);
+    });
+
+    it('should drop hints that could not be delivered within three hours by default', () => {
+      handoff.add('b', 'k', [version('v', 1)]);
+
+      jest.advanceTimersByTime(3 * 60 * 60 * 1000 - 1);
+      expect(handoff.pendingFor('b')).toBe(1);
+
+      jest.advanceTimersByTime(1);
+      expect(handoff.pendingFor('b')).toBe(0);
+    });
+  });
+
+  describe('with membership', () => {
+    let memberships: Membership[] = [];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      memberships.forEach((membership) => membership.stop());
+      memberships = [];
+      jest.useRealTimers();
+    });
+
+    it('should replay hints when a target is alive again', async () => {
+      const network = new InMemoryNetwork();
+      memberships = ['a', 'b'].map(
+        (id) =>
+          new Membership(new RpcEndpoint(network.createTransport(id)), {
+            seeds: ['a'],
+            protocolPeriodMs: 100,
+            pingTimeoutMs: 20,
+            suspicionTimeoutMs: 300,
+          }),
+      );
+      const started = Promise.all(memberships.map((membership) => membership.start()));
+      await jest.advanceTimersByTimeAsync(10);
+      await started;
+
+      handoff.attach(memberships[0]!);
+      network.disconnect('b');
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(memberships[0]!.getMember('b')?.status).toBe('dead');
+
+      handoff.add('b', 'k', [version('v', 1)]);
+      network.reconnect('b');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(delivered).toEqual([['b', 'k', ['v']]]);
+      expect(handoff.size).toBe(0);
+    });
+  });
+});
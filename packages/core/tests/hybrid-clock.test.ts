@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { HybridLogicalClock } from '../src/core/hybrid-clock';
+
+describe('HybridLogicalClock', () => {
+  it('should follow wall-clock time when it advances', () => {
+    let time = 100;
+    const clock = new HybridLogicalClock('a', () => time);
+
+    expect(clock.now()).toEqual({ wallTime: 100, logical: 0, nodeId: 'a' });
+    time = 200;
+    expect(clock.now()).toEqual({ wallTime: 200, logical: 0, nodeId: 'a' });
+  });
+
+  it('should increment the logical counter when wall-clock time stalls', () => {
+    const clock = new HybridLogicalClock('a', () => 100);
+
+    clock.now();
+    expect(clock.now()).toEqual({ wallTime: 100, logical: 1, nodeId: 'a' });
+  });
+
+  it('should move past timestamps received from nodes with faster clocks', () => {
+    const clock = new HybridLogicalClock('a', () => 100);
+
+    const received = clock.update({ wallTime: 500, logical: 3, nodeId: 'b' });
+    const next = clock.now();
+
+    expect(received).toEqual({ wallTime: 500, logical: 4, nodeId: 'a' });
+    expect(HybridLogicalClock.compare(next, received)).toBeGreaterThan(0);
+  });
+
+  it('should ignore older remote timestamps', () => {
+    const clock = new HybridLogicalClock('a', () => 1000);
+
+    clock.now();
+    expect(clock.update({ wallTime: 10, logical: 7, nodeId: 'b' })).toEqual({
+      wallTime: 1000,
+      logical: 1,
+      nodeId: 'a',
+    });
+  });
+
+  it('should order timestamps by wall time, logical counter and node id', () => {
+    const compare = HybridLogicalClock.compare;
+
+    expect(
+      compare({ wallTime: 1, logical: 5, nodeId: 'z' }, { wallTime: 2, logical: 0, nodeId: 'a' }),
+    ).toBeLessThan(0);
+    expect(
+      compare({ wallTime: 1, logical: 2, nodeId: 'a' }, { wallTime: 1, logical: 1, nodeId: 'z' }),
+    ).toBeGreaterThan(0);
+    expect(
+      compare({ wallTime: 1, logical: 1, nodeId: 'a' }, { wallTime: 1, logical: 1, nodeId: 'b' }),
+    ).toBeLessThan(0);
+    expect(
+      compare({ wallTime: 1, logical: 1, nodeId: 'a' }, { wallTime: 1, logical: 1, nodeId: 'a' }),
+    ).toBe(0);
+  });
+});
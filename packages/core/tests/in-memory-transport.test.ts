@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+
+describe('InMemoryNetwork', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should deliver messages after the configured latency', () => {
+    const network = new InMemoryNetwork({ latencyMs: 5 });
+    const a = network.createTransport('a');
+    const b = network.createTransport('b');
+    const received: Array<[string, unknown]> = [];
+
+    b.onMessage((from, message) => received.push([from, message]));
+    a.send('b', { hello: 'world' });
+
+    jest.advanceTimersByTime(4);
+    expect(received).toEqual([]);
+
+    jest.advanceTimersByTime(1);
+    expect(received).toEqual([['a', { hello: 'world' }]]);
+  });
+
+  it('should deliver a copy of each message', () => {
+    const network = new InMemoryNetwork();
+    const a = network.createTransport('a');
+    const b = network.createTransport('b');
+    const message = { values: [1] };
+    let received: unknown;
+
+    b.onMessage((_, delivered) => (received = delivered));
+    a.send('b', message);
+    message.values.push(2);
+    jest.runAllTimers();
+
+    expect(received).toEqual({ values: [1] });
+    expect(received).not.toBe(message);
+  });
+
+  it('should reject duplicate addresses', () => {
+    const network = new InMemoryNetwork();
+    network.createTransport('a');
+    expect(() => network.createTransport('a')).toThrow();
+  });
+
+  it('should drop messages to and from disconnected nodes', () => {
+    const network = new InMemoryNetwork();
+    const a = network.createTransport('a');
+    const b = network.createTransport('b');
+    const handler = jest.fn();
+    b.onMessage(handler);
+
+    network.disconnect('b');
+    a.send('b', 1);
+    jest.advanceTimersByTime(10);
+    expect(handler).not.toHaveBeenCalled();
+
+    network.reconnect('b');
+    a.send('b', 2);
+    jest.advanceTimersByTime(10);
+    expect(handler).toHaveBeenCalledWith('a', 2);
+  });
+
+  it('should drop messages across partitions until healed', () => {
+    const network = new InMemoryNetwork();
+    const a = network.createTransport('a');
+    const b = network.createTransport('b');
+    const c = network.createTransport('c');
+    const handler = jest.fn();
+    b.onMessage(handler);
+    c.onMessage(handler);
+
+    network.partition(['a'], ['b']);
+    a.send('b', 'blocked');
+    a.send('c', 'allowed');
+    jest.advanceTimersByTime(10);
+    expect(handler.mock.calls).toEqual([['a', 'allowed']]);
+
+    network.heal();
+    a.send('b', 'healed');
+    jest.advanceTimersByTime(10);
+    expect(handler).toHaveBeenLastCalledWith('a', 'healed');
+  });
+
+  it('should stop delivering to closed transports', () => {
+    const network = new InMemoryNetwork();
+    const a = network.createTransport('a');
+    const b = network.createTransport('b');
+    const handler = jest.fn();
+    b.onMessage(handler);
+
+    a.send('b', 1);
+    b.close();
+    jest.advanceTimersByTime(10);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
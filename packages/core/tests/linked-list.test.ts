@@ -67,6 +67,31 @@ describe('DoublyLinkedList', () => {
     });
   });
 
+  describe('addAfter', () => {
+    it('should add a node between two nodes', () => {
+      const list = new DoublyLinkedList<number>();
+      const first = list.addBack(1);
+      list.addBack(3);
+
+      const node = list.addAfter(first, 2);
+
+      expect([...list.values()]).toEqual([1, 2, 3]);
+      expect([...list.valuesReversed()]).toEqual([3, 2, 1]);
+      expect(node.prev).toBe(first);
+      expect(list.size).toBe(3);
+    });
+
+    it('should add a node after the last node', () => {
+      const list = new DoublyLinkedList<number>();
+      const last = list.addBack(1);
+
+      const node = list.addAfter(last, 2);
+
+      expect(list.getLast()).toBe(node);
+      expect([...list.valuesReversed()]).toEqual([2, 1]);
+    });
+  });
+
   describe('remove', () => {
     it('should remove the only node in the list', () => {
       const list = new DoublyLinkedList<number>();
@@ -208,4 +233,24 @@ describe('DoublyLinkedList', () => {
       expect(list.getLast()?.value).toBe(2);
     });
   });
+
+  describe('iteration', () => {
+    it('should iterate from front to back and back to front', () => {
+      const list = new DoublyLinkedList<number>();
+      list.addBack(1);
+      list.addBack(2);
+      list.addBack(3);
+
+      expect([...list]).toEqual([1, 2, 3]);
+      expect([...list.values()]).toEqual([1, 2, 3]);
+      expect([...list.valuesReversed()]).toEqual([3, 2, 1]);
+    });
+
+    it('should yield nothing for an empty list', () => {
+      const list = new DoublyLinkedList<number>();
+
+      expect([...list]).toEqual([]);
+      expect([...list.valuesReversed()]).toEqual([]);
+    });
+  });
 });
@@ -1,5 +1,13 @@
-import { describe, it, expect } from '@jest/globals';
-import { LRUCache, LRUCacheOptions } from '../src/core/lru-cache';
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { PassThrough, Readable } from 'stream';
+import { EvictionPolicy } from '../src/core/eviction-policy';
+import {
+  DisposeReason,
+  LRUCache,
+  LRUCacheLoaderContext,
+  LRUCacheOptions,
+  LRUCacheSnapshot,
+} from '../src/core/lru-cache';
 
 describe('LRUCache', () => {
   describe('initialization', () => {
@@ -144,6 +152,98 @@ describe('LRUCache', () => {
     });
   });
 
+  describe('iteration and peek', () => {
+    it('should list keys from most to least recently used', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+      cache.get('a');
+
+      expect([...cache.keys()]).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should iterate in both orders', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+
+      expect([...cache.values()]).toEqual([3, 2, 1]);
+      expect([...cache.entries({ reverse: true })]).toEqual([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect([...cache.keys({ reverse: true })]).toEqual(['a', 'b', 'c']);
+      expect([...cache]).toEqual([
+        ['c', 3],
+        ['b', 2],
+        ['a', 1],
+      ]);
+    });
+
+    it('should visit entries with forEach', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+      const visited: Array<[string, number]> = [];
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.forEach((value, key, self) => {
+        expect(self).toBe(cache);
+        visited.push([key, value]);
+      });
+      cache.forEach((value, key) => visited.push([key, value]), { reverse: true });
+
+      expect(visited).toEqual([
+        ['b', 2],
+        ['a', 1],
+        ['a', 1],
+        ['b', 2],
+      ]);
+    });
+
+    it('should not change recency while iterating', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 2 });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      [...cache.entries({ reverse: true })];
+      cache.forEach(() => undefined);
+      cache.set('c', 3);
+
+      expect(cache.has('a')).toBe(false);
+    });
+
+    it('should skip expired entries while iterating', () => {
+      jest.useFakeTimers();
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1, { ttlMs: 100 });
+      cache.set('b', 2);
+      jest.advanceTimersByTime(100);
+
+      expect([...cache.values()]).toEqual([2]);
+      expect([...cache.values({ reverse: true })]).toEqual([2]);
+      jest.useRealTimers();
+    });
+
+    it('should read values without changing recency', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 2 });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      expect(cache.peek('a')).toBe(1);
+      cache.set('c', 3);
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.peek('missing')).toBeUndefined();
+    });
+  });
+
   describe('delete operation', () => {
     it('should delete existing items', () => {
       const cache = new LRUCache<string, number>({ maxItems: 3 });
@@ -239,6 +339,34 @@ describe('LRUCache', () => {
       expect(cache.has('a')).toBe(false);
     });
 
+    it('should evict other items when an update grows a value', () => {
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 10,
+        sizeCalculator: (value) => value.length,
+      });
+
+      cache.set('a', '1234');
+      cache.set('b', '1234');
+      cache.set('b', '12345678');
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.get('b')).toBe('12345678');
+      expect(cache.memoryUsage).toBe(8);
+    });
+
+    it('should drop an existing item when its new value exceeds the memory limit', () => {
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 10,
+        sizeCalculator: (value) => value.length,
+      });
+
+      cache.set('a', '1234');
+      cache.set('a', 'this value is far too large');
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.memoryUsage).toBe(0);
+    });
+
     it('should update memory usage when deleting items', () => {
       const cache = new LRUCache<string, string>({ maxMemoryBytes: 100 });
 
@@ -358,8 +486,8 @@ describe('LRUCache', () => {
 
       cache.set('a', { name: 'John', age: 30 });
       expect(cache.get('a')).toEqual({ name: 'John', age: 30 });
-      // Memory usage should be 24 bytes - { name: "John", age: 30 } is  24 character by UTF-8 encoding
-      expect(cache.memoryUsage).toEqual(24);
+      // 16 bytes of object overhead, 14 for the keys, 8 for 'John' and 8 for the number
+      expect(cache.memoryUsage).toEqual(46);
 
       // add more JSON objects - with maxItems: 3, adding a 4th item will evict the first one
       cache.set('b', { name: 'Siva', age: 30 });
@@ -402,4 +530,1291 @@ describe('LRUCache', () => {
       expect(cache.get('a')).toBe(cache.get('a'));
     });
   });
+
+  describe('TTL expiry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should expire entries after the per-call TTL', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1, { ttlMs: 1000 });
+      expect(cache.get('a')).toBe(1);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
+
+    it('should apply the default TTL when none is given', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, defaultTtlMs: 500 });
+
+      cache.set('a', 1);
+      cache.set('b', 2, { ttlMs: 2000 });
+
+      jest.advanceTimersByTime(600);
+
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.get('b')).toBe(2);
+    });
+
+    it('should allow opting out of the default TTL with Infinity', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, defaultTtlMs: 500 });
+
+      cache.set('a', 1, { ttlMs: Infinity });
+      jest.advanceTimersByTime(10_000);
+
+      expect(cache.get('a')).toBe(1);
+      expect(cache.getRemainingTtl('a')).toBe(Infinity);
+    });
+
+    it('should report the remaining TTL', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1, { ttlMs: 1000 });
+      cache.set('b', 2);
+      jest.advanceTimersByTime(400);
+
+      expect(cache.getRemainingTtl('a')).toBe(600);
+      expect(cache.getRemainingTtl('b')).toBe(Infinity);
+      expect(cache.getRemainingTtl('missing')).toBeUndefined();
+    });
+
+    it('should reset the TTL when an entry is overwritten', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, defaultTtlMs: 1000 });
+
+      cache.set('a', 1);
+      jest.advanceTimersByTime(800);
+      cache.set('a', 2);
+      jest.advanceTimersByTime(800);
+
+      expect(cache.get('a')).toBe(2);
+    });
+
+    it('should free memory when expired entries are removed', () => {
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 100,
+        sizeCalculator: (value) => value.length,
+      });
+
+      cache.set('a', 'short', { ttlMs: 100 });
+      cache.set('b', 'longer', { ttlMs: 1000 });
+      expect(cache.memoryUsage).toBe(11);
+
+      jest.advanceTimersByTime(100);
+      expect(cache.has('a')).toBe(false);
+      expect(cache.memoryUsage).toBe(6);
+    });
+
+    it('should purge all expired entries at once', () => {
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 100,
+        sizeCalculator: (value) => value.length,
+      });
+
+      cache.set('a', 'one', { ttlMs: 100 });
+      cache.set('b', 'two', { ttlMs: 100 });
+      cache.set('c', 'three');
+
+      jest.advanceTimersByTime(100);
+
+      expect(cache.purgeExpired()).toBe(2);
+      expect(cache.size).toBe(1);
+      expect(cache.memoryUsage).toBe(5);
+    });
+
+    it('should not report expired entries as deleted', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1, { ttlMs: 100 });
+      jest.advanceTimersByTime(100);
+
+      expect(cache.delete('a')).toBe(false);
+      expect(cache.size).toBe(0);
+    });
+
+    it('should reject invalid TTL values', () => {
+      expect(() => new LRUCache<string, number>({ defaultTtlMs: 0 })).toThrow();
+
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+      expect(() => cache.set('a', 1, { ttlMs: -1 })).toThrow();
+    });
+  });
+
+  describe('events', () => {
+    const collect = () => {
+      const events: Array<[string, unknown, DisposeReason]> = [];
+      const onDispose = (key: string, value: unknown, reason: DisposeReason) => {
+        events.push([key, value, reason]);
+      };
+      return { events, onDispose };
+    };
+
+    it('should report capacity evictions', () => {
+      const { events, onDispose } = collect();
+      const cache = new LRUCache<string, number>({ maxItems: 2, onDispose });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+
+      expect(events).toEqual([['a', 1, 'capacity']]);
+    });
+
+    it('should report memory evictions', () => {
+      const { events, onDispose } = collect();
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 10,
+        sizeCalculator: (value) => value.length,
+        onDispose,
+      });
+
+      cache.set('a', '12345');
+      cache.set('b', '123456');
+
+      expect(events).toEqual([['a', '12345', 'memory']]);
+    });
+
+    it('should report deletes, overwrites and clears', () => {
+      const { events, onDispose } = collect();
+      const cache = new LRUCache<string, number>({ maxItems: 5, onDispose });
+
+      cache.set('a', 1);
+      cache.set('a', 1);
+      cache.set('a', 2);
+      cache.set('b', 3);
+      cache.set('c', 4);
+      cache.delete('b');
+      cache.clear();
+
+      expect(events).toEqual([
+        ['a', 1, 'overwrite'],
+        ['b', 3, 'delete'],
+        ['a', 2, 'clear'],
+        ['c', 4, 'clear'],
+      ]);
+    });
+
+    it('should report expired entries', () => {
+      jest.useFakeTimers();
+      try {
+        const { events, onDispose } = collect();
+        const cache = new LRUCache<string, number>({ maxItems: 5, onDispose });
+
+        cache.set('a', 1, { ttlMs: 10 });
+        jest.advanceTimersByTime(10);
+        cache.get('a');
+
+        expect(events).toEqual([['a', 1, 'expired']]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should notify set listeners and support unsubscribing', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 5 });
+      const seen: Array<[string, number]> = [];
+
+      const unsubscribe = cache.on('set', (key, value) => seen.push([key, value]));
+      cache.set('a', 1);
+      cache.set('a', 2);
+      unsubscribe();
+      cache.set('b', 3);
+
+      expect(seen).toEqual([
+        ['a', 1],
+        ['a', 2],
+      ]);
+    });
+
+    it('should not fire set events for values that are too large', () => {
+      const cache = new LRUCache<string, string>({ maxMemoryBytes: 4 });
+      const listener = jest.fn();
+
+      cache.on('set', listener);
+      cache.set('a', 'too large');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should remove listeners with off', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 1 });
+      const listener = jest.fn();
+
+      cache.on('dispose', listener);
+      cache.off('dispose', listener);
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('snapshots', () => {
+    beforeEach(() => {
+      // Streams schedule their work with nextTick and setImmediate
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    async function collect(stream: PassThrough): Promise<string> {
+      let text = '';
+      for await (const chunk of stream) text += String(chunk);
+      return text;
+    }
+
+    it('should dump entries from least to most recently used with their expiry', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      cache.set('a', 1, { ttlMs: 1000 });
+      cache.set('b', 2);
+      cache.set('c', 3);
+      cache.get('a');
+
+      expect(cache.dump()).toEqual({
+        version: 1,
+        entries: [
+          { key: 'b', value: 2 },
+          { key: 'c', value: 3 },
+          { key: 'a', value: 1, expiresAt: Date.now() + 1000 },
+        ],
+      });
+    });
+
+    it('should restore recency order, memory usage and TTLs', () => {
+      const source = new LRUCache<string, string>({ maxItems: 3 });
+      source.set('a', 'one', { ttlMs: 1000 });
+      source.set('b', 'two');
+      source.set('c', 'three');
+      source.get('a');
+
+      const snapshot = JSON.parse(JSON.stringify(source.dump()));
+      jest.advanceTimersByTime(400);
+
+      const target = new LRUCache<string, string>({ maxItems: 3 });
+      expect(target.load(snapshot)).toBe(3);
+
+      expect([...target.keys()]).toEqual(['a', 'c', 'b']);
+      expect(target.memoryUsage).toBe(source.memoryUsage);
+      expect(target.getRemainingTtl('a')).toBe(600);
+      expect(target.getRemainingTtl('b')).toBe(Infinity);
+    });
+
+    it('should skip expired entries and evict the oldest when restoring into a smaller cache', () => {
+      const source = new LRUCache<string, number>({ maxItems: 4 });
+      source.set('expiring', 0, { ttlMs: 100 });
+      source.set('a', 1);
+      source.set('b', 2);
+      source.set('c', 3);
+      const snapshot = source.dump();
+
+      jest.advanceTimersByTime(100);
+      const target = new LRUCache<string, number>({ maxItems: 2 });
+
+      expect(target.load(snapshot)).toBe(3);
+      expect([...target.keys()]).toEqual(['c', 'b']);
+    });
+
+    it('should reject malformed snapshots', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      expect(() => cache.load({ version: 2, entries: [] })).toThrow('Unsupported snapshot version');
+      expect(() =>
+        cache.load({ version: 1, entries: [null] } as unknown as LRUCacheSnapshot<string, number>),
+      ).toThrow('Invalid snapshot');
+    });
+
+    it('should stream snapshots as JSON lines', async () => {
+      const source = new LRUCache<string, number>({ maxItems: 3 });
+      source.set('a', 1);
+      source.set('b', 2, { ttlMs: 1000 });
+
+      const stream = new PassThrough();
+      expect(await source.dumpTo(stream)).toBe(2);
+      const text = await collect(stream.end());
+
+      expect(
+        text
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line)),
+      ).toEqual([
+        { version: 1 },
+        { key: 'a', value: 1 },
+        { key: 'b', value: 2, expiresAt: Date.now() + 1000 },
+      ]);
+
+      const target = new LRUCache<string, number>({ maxItems: 3 });
+      // Split the input mid-line to exercise buffering
+      expect(await target.loadFrom(Readable.from([text.slice(0, 20), text.slice(20)]))).toBe(2);
+      expect([...target.entries()]).toEqual([
+        ['b', 2],
+        ['a', 1],
+      ]);
+    });
+
+    it('should wait for the stream to drain', async () => {
+      const cache = new LRUCache<string, string>({ maxItems: 100 });
+      for (let i = 0; i < 100; i++) cache.set(`key${i}`, 'x'.repeat(100));
+
+      const stream = new PassThrough({ highWaterMark: 256 });
+      const drained = jest.fn();
+      stream.on('drain', drained);
+      const text = collect(stream);
+
+      expect(await cache.dumpTo(stream)).toBe(100);
+      stream.end();
+
+      expect(drained).toHaveBeenCalled();
+      expect((await text).trim().split('\n')).toHaveLength(101);
+    });
+
+    it('should convert values with custom serializers', async () => {
+      const source = new LRUCache<string, Date>({ maxItems: 3 });
+      source.set('date', new Date(1000));
+
+      const stream = new PassThrough();
+      await source.dumpTo(stream, { serialize: (date) => date.getTime() });
+      const text = await collect(stream.end());
+
+      const target = new LRUCache<string, Date>({ maxItems: 3 });
+      await target.loadFrom(Readable.from([text]), {
+        deserialize: (data) => new Date(data as number),
+      });
+
+      expect(target.get('date')).toEqual(new Date(1000));
+    });
+
+    it('should reject streams that are not snapshots', async () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+
+      await expect(cache.loadFrom(Readable.from([]))).rejects.toThrow('missing header');
+      await expect(cache.loadFrom(Readable.from(['{"version":1}\nnot json\n']))).rejects.toThrow(
+        'Invalid JSON on line 2',
+      );
+    });
+  });
+
+  describe('loader and writer', () => {
+    it('should load missing keys and cache them', async () => {
+      const loader = jest.fn(async (key: string) => `loaded-${key}`);
+      const cache = new LRUCache<string, string>({ maxItems: 10, loader });
+      cache.set('cached', 'value');
+
+      expect(await cache.fetch('cached')).toBe('value');
+      expect(await cache.fetch('a')).toBe('loaded-a');
+      expect(await cache.fetch('a')).toBe('loaded-a');
+      expect(cache.get('a')).toBe('loaded-a');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache keys the loader cannot find', async () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, loader: async () => undefined });
+
+      expect(await cache.fetch('a')).toBeUndefined();
+      expect(cache.has('a')).toBe(false);
+      expect(await new LRUCache<string, string>({ maxItems: 10 }).fetch('a')).toBeUndefined();
+    });
+
+    it('should share one load between concurrent fetches of a key', async () => {
+      let resolve!: (value: string) => void;
+      const loader = jest.fn(() => new Promise<string>((r) => (resolve = r)));
+      const cache = new LRUCache<string, string>({ maxItems: 10, loader });
+
+      const fetches = Promise.all([cache.fetch('a'), cache.fetch('a')]);
+      resolve('v');
+
+      expect(await fetches).toEqual(['v', 'v']);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply per-entry options to loaded values', async () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, loader: async () => 'v' });
+
+      await cache.fetch('a', { ttlMs: 1000 });
+
+      expect(cache.getRemainingTtl('a')).toBeLessThanOrEqual(1000);
+    });
+
+    it('should not overwrite a value set while it was loading', async () => {
+      let resolve!: (value: string) => void;
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader: () => new Promise<string>((r) => (resolve = r)),
+      });
+
+      const fetched = cache.fetch('a');
+      cache.set('a', 'newer');
+      resolve('stale');
+
+      expect(await fetched).toBe('stale');
+      expect(cache.get('a')).toBe('newer');
+
+      const deleted = cache.fetch('b');
+      cache.delete('b');
+      resolve('stale');
+      await deleted;
+      expect(cache.has('b')).toBe(false);
+    });
+
+    it('should handle loader errors according to onLoaderError', async () => {
+      const loader = async (): Promise<string> => {
+        throw new Error('backend down');
+      };
+
+      await expect(
+        new LRUCache<string, string>({ maxItems: 10, loader }).fetch('a'),
+      ).rejects.toThrow('backend down');
+
+      const ignoring = new LRUCache<string, string>({
+        maxItems: 10,
+        loader,
+        onLoaderError: 'ignore',
+      });
+      expect(await ignoring.fetch('a')).toBeUndefined();
+
+      const fallback = new LRUCache<string, string>({
+        maxItems: 10,
+        loader,
+        onLoaderError: (error, key) => `${key}: ${(error as Error).message}`,
+      });
+      expect(await fallback.fetch('a')).toBe('a: backend down');
+      expect(fallback.has('a')).toBe(false);
+    });
+
+    it('should write sets and deletes through to the writer in order', async () => {
+      const written: string[] = [];
+      const cache = new LRUCache<string, string>({
+        maxItems: 1,
+        writer: {
+          write: async (key, value) => {
+            await new Promise((resolve) => setTimeout(resolve, key === 'a' ? 5 : 0));
+            written.push(`set ${key}=${value}`);
+          },
+          delete: async (key) => {
+            written.push(`delete ${key}`);
+          },
+        },
+      });
+
+      cache.set('a', '1');
+      cache.delete('a');
+      cache.set('b', '2');
+      cache.set('c', '3');
+      await cache.flush();
+
+      // Evicting b does not delete it from the backing store
+      expect(written).toEqual(['set b=2', 'set c=3', 'set a=1', 'delete a']);
+    });
+
+    it('should not write loaded or restored values back', async () => {
+      const write = jest.fn(async () => undefined);
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader: async () => 'loaded',
+        writer: { write },
+      });
+
+      await cache.fetch('a');
+      cache.load({ version: 1, entries: [{ key: 'b', value: 'restored' }] });
+      await cache.flush();
+
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    describe('write-behind', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should coalesce changes to a key until the delay passes', async () => {
+        const write = jest.fn(async (_key: string, _value: number) => undefined);
+        const cache = new LRUCache<string, number>({
+          maxItems: 10,
+          writer: { write },
+          writeMode: 'write-behind',
+          writeBehindDelayMs: 100,
+        });
+
+        cache.set('a', 1);
+        cache.set('a', 2);
+        cache.set('b', 1);
+        await jest.advanceTimersByTimeAsync(50);
+        expect(write).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(50);
+        expect(write.mock.calls).toEqual([
+          ['a', 2],
+          ['b', 1],
+        ]);
+      });
+
+      it('should send held changes on flush', async () => {
+        const write = jest.fn(async () => undefined);
+        const cache = new LRUCache<string, number>({
+          maxItems: 10,
+          writer: { write },
+          writeMode: 'write-behind',
+        });
+
+        cache.set('a', 1);
+        await cache.flush();
+
+        expect(write).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should report writer failures', async () => {
+      const errors: string[] = [];
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        writer: {
+          write: async () => {
+            throw new Error('disk full');
+          },
+        },
+      });
+      cache.on('writeError', (error, key) => errors.push(`${key}: ${(error as Error).message}`));
+
+      cache.set('a', '1');
+      await expect(cache.flush()).rejects.toThrow('disk full');
+      expect(errors).toEqual(['a: disk full']);
+      expect(cache.get('a')).toBe('1');
+
+      // Errors are only reported by the flush following them
+      await expect(cache.flush()).resolves.toBeUndefined();
+    });
+
+    it('should keep writing when a writeError listener throws', async () => {
+      const written: string[] = [];
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        writer: {
+          write: async (key, value) => {
+            if (value === 'bad') throw new Error('rejected');
+            written.push(`${key}=${value}`);
+          },
+        },
+      });
+      cache.on('writeError', () => {
+        throw new Error('listener failed');
+      });
+
+      cache.set('a', 'bad');
+      cache.set('a', '1');
+      await expect(cache.flush()).rejects.toThrow('rejected');
+
+      expect(written).toEqual(['a=1']);
+      await expect(cache.flush()).resolves.toBeUndefined();
+    });
+
+    it('should keep only the first writer failure until the next flush', async () => {
+      let failures = 0;
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        writer: {
+          write: async () => {
+            throw new Error(`outage ${++failures}`);
+          },
+        },
+      });
+
+      cache.set('a', '1');
+      cache.set('b', '2');
+      cache.set('a', '3');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(cache.failedWrites).toBe(3);
+      await expect(cache.flush()).rejects.toThrow('outage 1');
+      expect(cache.failedWrites).toBe(0);
+    });
+
+    it('should reject a non-positive write-behind delay', () => {
+      expect(
+        () =>
+          new LRUCache<string, string>({
+            maxItems: 1,
+            writer: { write: async () => undefined },
+            writeBehindDelayMs: 0,
+          }),
+      ).toThrow();
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should serve a stale value while refreshing it in the background', async () => {
+      let resolve!: (value: string) => void;
+      const loader = jest.fn(
+        (_key: string, _context: LRUCacheLoaderContext<string>) =>
+          new Promise<string>((r) => (resolve = r)),
+      );
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader,
+        staleWhileRevalidateMs: 500,
+      });
+      cache.set('a', 'old', { ttlMs: 1000 });
+
+      jest.advanceTimersByTime(1000);
+      expect(cache.isStale('a')).toBe(true);
+      expect(cache.getRemainingTtl('a')).toBe(0);
+      expect(cache.getExpiry('a')).toEqual({ expiresAt: Date.now(), staleUntil: Date.now() + 500 });
+      expect(cache.get('a')).toBe('old');
+      expect(await cache.fetch('a')).toBe('old');
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(loader.mock.calls[0]![1].staleValue).toBe('old');
+
+      resolve('new');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(cache.get('a')).toBe('new');
+      expect(cache.isStale('a')).toBe(false);
+      // The refreshed entry keeps the TTL it was originally set with
+      expect(cache.getRemainingTtl('a')).toBe(1000);
+    });
+
+    it('should stop serving stale values once they hard-expire', () => {
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        defaultTtlMs: 1000,
+        staleWhileRevalidateMs: 500,
+      });
+      cache.set('a', 'old');
+      cache.set('b', 'old', { staleWhileRevalidateMs: 2000 });
+
+      jest.advanceTimersByTime(1400);
+      expect(cache.peek('a')).toBe('old');
+
+      jest.advanceTimersByTime(100);
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.get('b')).toBe('old');
+      expect(cache.purgeExpired()).toBe(0);
+    });
+
+    it('should load in the foreground once a value has hard-expired', async () => {
+      const loader = jest.fn(async () => 'new');
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader,
+        staleWhileRevalidateMs: 500,
+      });
+      cache.set('a', 'old', { ttlMs: 1000 });
+
+      jest.advanceTimersByTime(1500);
+
+      expect(await cache.fetch('a')).toBe('new');
+      expect(loader.mock.calls).toEqual([
+        ['a', expect.objectContaining({ staleValue: undefined })],
+      ]);
+    });
+
+    it('should keep serving the stale value when a refresh fails', async () => {
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader: async () => {
+          throw new Error('backend down');
+        },
+        staleWhileRevalidateMs: 500,
+      });
+      cache.set('a', 'old', { ttlMs: 1000 });
+
+      jest.advanceTimersByTime(1000);
+      expect(cache.get('a')).toBe('old');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(cache.get('a')).toBe('old');
+    });
+
+    it('should abort a refresh when the key changes', async () => {
+      let signal!: AbortSignal;
+      let resolve!: (value: string) => void;
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        loader: (_key, context) => {
+          signal = context.signal;
+          return new Promise<string>((r) => (resolve = r));
+        },
+        staleWhileRevalidateMs: 500,
+      });
+      cache.set('a', 'old', { ttlMs: 1000 });
+
+      jest.advanceTimersByTime(1000);
+      cache.get('a');
+      expect(signal.aborted).toBe(false);
+
+      cache.set('a', 'newer');
+      expect(signal.aborted).toBe(true);
+
+      resolve('refreshed');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(cache.get('a')).toBe('newer');
+    });
+
+    it('should preserve the stale window in snapshots', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10 });
+      cache.set('a', 'v', { ttlMs: 1000, staleWhileRevalidateMs: 500 });
+      jest.advanceTimersByTime(1200);
+
+      const restored = new LRUCache<string, string>({ maxItems: 10 });
+      expect(restored.load(cache.dump())).toBe(1);
+      expect(restored.isStale('a')).toBe(true);
+
+      jest.advanceTimersByTime(300);
+      expect(restored.has('a')).toBe(false);
+    });
+
+    it('should reject an invalid stale window', () => {
+      expect(() => new LRUCache({ maxItems: 1, staleWhileRevalidateMs: 0 })).toThrow();
+      expect(() => new LRUCache({ maxItems: 1, staleWhileRevalidateMs: Infinity })).toThrow();
+      expect(() =>
+        new LRUCache<string, string>({ maxItems: 1 }).set('a', 'v', {
+          staleWhileRevalidateMs: -1,
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe('stats', () => {
+    it('should count hits, misses, sets and overwrites', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+
+      cache.set('a', 1);
+      cache.set('a', 2);
+      cache.get('a');
+      cache.get('b');
+      cache.peek('a');
+
+      expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, sets: 2, overwrites: 1 });
+    });
+
+    it('should count evictions by reason', () => {
+      jest.useFakeTimers();
+      const cache = new LRUCache<string, string>({ maxItems: 2 });
+
+      cache.set('a', 'x', { ttlMs: 10 });
+      cache.set('b', 'x');
+      cache.set('c', 'x');
+      jest.advanceTimersByTime(10);
+      cache.set('e', 'x', { ttlMs: 10 });
+      jest.advanceTimersByTime(10);
+      cache.purgeExpired();
+      cache.delete('c');
+      cache.clear();
+      jest.useRealTimers();
+
+      expect(cache.stats().evictions).toEqual({ capacity: 2, memory: 0, expired: 1 });
+    });
+
+    it('should count values rejected for exceeding the memory limit', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, maxMemoryBytes: 50 });
+
+      cache.set('a', 'x');
+      cache.set('b', 'x'.repeat(100));
+
+      expect(cache.stats()).toMatchObject({ sets: 1, rejected: 1 });
+    });
+
+    it('should count an oversized overwrite once, as a rejection', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, maxMemoryBytes: 50 });
+      const disposed: string[] = [];
+      cache.on('dispose', (key, _value, reason) => disposed.push(`${key}:${reason}`));
+
+      cache.set('a', 'x');
+      cache.set('a', 'x'.repeat(100));
+
+      // The value the rejected overwrite would have replaced is dropped too
+      expect(cache.has('a')).toBe(false);
+      expect(disposed).toEqual(['a:memory']);
+      expect(cache.stats()).toMatchObject({ sets: 1, rejected: 1 });
+      expect(cache.stats().evictions.memory).toBe(0);
+    });
+
+    it('should track the memory high-water mark', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, sizeCalculator: (v) => v.length });
+
+      cache.set('a', 'x'.repeat(30));
+      cache.set('b', 'x'.repeat(20));
+      cache.delete('a');
+
+      expect(cache.memoryUsage).toBe(20);
+      expect(cache.stats().memoryHighWater).toBe(50);
+    });
+
+    it('should reset the counters', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, sizeCalculator: (v) => v.length });
+      cache.set('a', 'xx');
+      cache.get('a');
+
+      const before = cache.stats();
+      cache.resetStats();
+      before.hits = 100;
+
+      expect(cache.stats()).toEqual({
+        hits: 0,
+        misses: 0,
+        sets: 0,
+        overwrites: 0,
+        evictions: { capacity: 0, memory: 0, expired: 0 },
+        rejected: 0,
+        memoryHighWater: 2,
+      });
+    });
+  });
+
+  describe('eviction policies', () => {
+    /**
+     * Read a hot set repeatedly, scan many other keys once, then count how much of the hot set is left
+     */
+    function hotKeysAfterScan(evictionPolicy: LRUCacheOptions<number, string>['evictionPolicy']) {
+      const cache = new LRUCache<string, number>({ maxItems: 100, evictionPolicy });
+      const hot = Array.from({ length: 50 }, (_, i) => `hot${i}`);
+
+      for (let round = 0; round < 3; round++) {
+        for (const key of hot) {
+          if (cache.get(key) === undefined) cache.set(key, round);
+        }
+      }
+      for (let i = 0; i < 500; i++) cache.set(`scan${i}`, i);
+
+      return hot.filter((key) => cache.has(key)).length;
+    }
+
+    it('should let a scan flush the hot set with lru', () => {
+      expect(hotKeysAfterScan('lru')).toBe(0);
+    });
+
+    it('should keep the hot set through a scan with scan-resistant policies', () => {
+      expect(hotKeysAfterScan('w-tinylfu')).toBeGreaterThanOrEqual(49);
+      expect(hotKeysAfterScan('lfu')).toBe(50);
+      expect(hotKeysAfterScan('arc')).toBeGreaterThanOrEqual(49);
+    });
+
+    it('should keep tracking recency for iteration whatever the policy', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, evictionPolicy: 'lfu' });
+      cache.set('a', 1);
+      cache.get('a');
+      cache.set('b', 2);
+      cache.set('c', 3);
+      cache.set('d', 4);
+
+      expect([...cache.keys()]).toEqual(['d', 'c', 'a']);
+    });
+
+    it('should use a custom policy', () => {
+      const order: string[] = [];
+      const fifo: EvictionPolicy<string> = {
+        insert: (key) => order.push(key),
+        touch: () => undefined,
+        remove: (key) => order.splice(order.indexOf(key), 1),
+        victim: () => order[0],
+        clear: () => order.splice(0),
+      };
+      const disposed: Array<[string, DisposeReason]> = [];
+      const cache = new LRUCache<string, number>({
+        maxItems: 2,
+        evictionPolicy: fifo,
+        onDispose: (key, _value, reason) => disposed.push([key, reason]),
+      });
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(disposed).toEqual([['a', 'capacity']]);
+      expect(order).toEqual(['b', 'c']);
+    });
+
+    it('should not evict the entry being overwritten to make room for it', () => {
+      const policy: EvictionPolicy<string> = {
+        insert: () => undefined,
+        touch: () => undefined,
+        remove: () => undefined,
+        victim: () => 'a',
+        clear: () => undefined,
+      };
+      const cache = new LRUCache<string, string>({
+        maxItems: 10,
+        maxMemoryBytes: 10,
+        sizeCalculator: (value) => value.length,
+        evictionPolicy: policy,
+      });
+      cache.set('b', 'xxx');
+      cache.set('a', 'xxx');
+
+      cache.set('a', 'xxxxxxxx');
+
+      expect(cache.get('a')).toBe('xxxxxxxx');
+      expect(cache.has('b')).toBe(false);
+    });
+
+    it('should reject unknown policy names', () => {
+      expect(() => new LRUCache({ maxItems: 1, evictionPolicy: 'mru' as 'lru' })).toThrow(
+        'Unknown eviction policy: mru',
+      );
+    });
+  });
+
+  describe('memory accounting', () => {
+    it('should count nested objects, Maps and Buffers', () => {
+      const cache = new LRUCache<string, unknown>({ maxItems: 10 });
+
+      cache.set('buffer', Buffer.alloc(1024));
+      cache.set('map', new Map([['a', { list: [1, 2, 3] }]]));
+
+      expect(cache.memoryUsage).toBe(1040 + 16 + 2 + 16 + 8 + 16 + 24);
+    });
+
+    it('should include key sizes when enabled', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, includeKeySize: true });
+
+      cache.set('key', 'value');
+
+      expect(cache.memoryUsage).toBe(6 + 10);
+    });
+
+    it('should release the size computed when the entry was stored', () => {
+      const sizeCalculator = jest.fn((value: number[]) => value.length);
+      const cache = new LRUCache<string, number[]>({ maxItems: 1, sizeCalculator });
+      const value = [1, 2, 3];
+
+      cache.set('a', value);
+      // Mutating a cached value must not corrupt the accounting when it is removed
+      value.push(4);
+      cache.set('b', [1]);
+
+      expect(sizeCalculator).toHaveBeenCalledTimes(2);
+      expect(cache.memoryUsage).toBe(1);
+    });
+  });
+
+  describe('resizing', () => {
+    it('should report the current limits', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, maxMemoryBytes: 100 });
+
+      expect(cache.limits).toEqual({ maxItems: 3, maxMemoryBytes: 100 });
+    });
+
+    it('should evict immediately when the item limit shrinks', () => {
+      const disposed: Array<[string, DisposeReason]> = [];
+      const cache = new LRUCache<string, number>({
+        maxItems: 5,
+        onDispose: (key, _value, reason) => disposed.push([key, reason]),
+      });
+      ['a', 'b', 'c', 'd'].forEach((key, i) => cache.set(key, i));
+      cache.get('a');
+
+      cache.resize({ maxItems: 2 });
+
+      expect([...cache.keys()]).toEqual(['a', 'd']);
+      expect(disposed).toEqual([
+        ['b', 'capacity'],
+        ['c', 'capacity'],
+      ]);
+      expect(cache.stats().evictions.capacity).toBe(2);
+    });
+
+    it('should evict immediately when the memory limit shrinks', () => {
+      const cache = new LRUCache<string, string>({
+        maxMemoryBytes: 100,
+        sizeCalculator: (value) => value.length,
+      });
+      cache.set('a', 'x'.repeat(40));
+      cache.set('b', 'x'.repeat(40));
+
+      cache.resize({ maxMemoryBytes: 50 });
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.memoryUsage).toBe(40);
+      expect(cache.limits).toEqual({ maxItems: undefined, maxMemoryBytes: 50 });
+    });
+
+    it('should accept more entries after growing', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 1 });
+      cache.set('a', 1);
+
+      cache.resize({ maxItems: 2 });
+      cache.set('b', 2);
+
+      expect(cache.size).toBe(2);
+    });
+
+    it('should remove the item limit when maxItems is explicitly undefined', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 1 });
+
+      cache.resize({ maxItems: undefined });
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      expect(cache.size).toBe(2);
+    });
+
+    it('should reject invalid limits without changing anything', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 2, maxMemoryBytes: 100 });
+
+      expect(() => cache.resize({ maxItems: 0 })).toThrow(
+        'Maximum items must be a positive number',
+      );
+      expect(() => cache.resize({ maxMemoryBytes: NaN })).toThrow(
+        'Maximum memory must be a positive number',
+      );
+      expect(cache.limits).toEqual({ maxItems: 2, maxMemoryBytes: 100 });
+    });
+  });
+
+  describe('bulk operations', () => {
+    it('should partition keys into hits and misses', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3 });
+      cache.set('a', 1).set('b', 2).set('c', 3);
+
+      const { hits, misses } = cache.getMany(['c', 'x', 'a', 'y']);
+
+      expect([...hits]).toEqual([
+        ['c', 3],
+        ['a', 1],
+      ]);
+      expect(misses).toEqual(['x', 'y']);
+      expect(cache.stats()).toMatchObject({ hits: 2, misses: 2 });
+      // Found keys are marked as recently used
+      expect([...cache.keys()]).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should set many values with a single eviction pass', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 3, maxMemoryBytes: 100 });
+      const disposed: string[] = [];
+      cache.on('dispose', (key) => disposed.push(key));
+      cache.set('old', 1);
+
+      cache.setMany([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+        ['a', 4],
+      ]);
+
+      expect([...cache.entries()]).toEqual([
+        ['a', 4],
+        ['c', 3],
+        ['b', 2],
+      ]);
+      expect(disposed).toEqual(['a', 'old']);
+      // The high-water mark is taken after the batch is evicted down to the limits
+      expect(cache.stats().memoryHighWater).toBe(24);
+    });
+
+    it('should apply set options to every value in a batch', () => {
+      jest.useFakeTimers();
+      try {
+        const cache = new LRUCache<string, number>({ maxItems: 10 });
+
+        cache.setMany(
+          [
+            ['a', 1],
+            ['b', 2],
+          ],
+          { ttlMs: 1000 },
+        );
+        jest.advanceTimersByTime(1000);
+
+        expect(cache.has('a')).toBe(false);
+        expect(cache.has('b')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should send every value in a batch to the writer', async () => {
+      const write = jest.fn(async () => undefined);
+      const cache = new LRUCache<string, number>({
+        maxItems: 1,
+        writer: { write, delete: async () => undefined },
+      });
+
+      cache.setMany([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      await cache.flush();
+
+      expect(write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should delete many keys', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      cache.setMany([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+      ]);
+
+      expect(cache.deleteMany(['a', 'c', 'x'])).toBe(2);
+      expect([...cache.keys()]).toEqual(['b']);
+    });
+
+    it('should delete keys matching a predicate', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      cache.setMany([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+        ['d', 4],
+      ]);
+
+      expect(cache.deleteWhere((value) => value % 2 === 0)).toBe(2);
+      expect([...cache.keys()]).toEqual(['c', 'a']);
+    });
+
+    it('should delete keys by prefix', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      const disposed: Array<[string, DisposeReason]> = [];
+      cache.on('dispose', (key, _value, reason) => disposed.push([key, reason]));
+      cache.setMany([
+        ['user:1:name', 1],
+        ['user:1:email', 2],
+        ['user:2:name', 3],
+      ]);
+
+      expect(cache.deletePrefix('user:1:')).toBe(2);
+      expect([...cache.keys()]).toEqual(['user:2:name']);
+      expect(disposed.every(([, reason]) => reason === 'delete')).toBe(true);
+    });
+  });
+
+  describe('atomic operations', () => {
+    it('should change the version on every write', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+
+      expect(cache.getVersion('a')).toBeUndefined();
+      cache.set('a', 1);
+      const first = cache.getVersion('a');
+      cache.set('a', 1);
+
+      expect(first).toBeDefined();
+      expect(cache.getVersion('a')).not.toBe(first);
+    });
+
+    it('should compare and set against the version read', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      cache.set('a', 1);
+      const version = cache.getVersion('a');
+
+      expect(cache.compareAndSet('a', version, 2)).toBe(true);
+      expect(cache.compareAndSet('a', version, 3)).toBe(false);
+      expect(cache.get('a')).toBe(2);
+    });
+
+    it('should only create missing keys when no version is expected', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+
+      expect(cache.compareAndSet('a', undefined, 1)).toBe(true);
+      expect(cache.compareAndSet('a', undefined, 2)).toBe(false);
+      expect(cache.get('a')).toBe(1);
+    });
+
+    it('should report a compare and set rejected for its size', () => {
+      const cache = new LRUCache<string, string>({ maxItems: 10, maxMemoryBytes: 4 });
+
+      expect(cache.compareAndSet('a', undefined, 'too large')).toBe(false);
+    });
+
+    it('should update a value in place, keeping its options', () => {
+      jest.useFakeTimers();
+      try {
+        const cache = new LRUCache<string, number[]>({ maxItems: 10 });
+        cache.set('a', [1], { ttlMs: 1000 });
+
+        expect(cache.update('a', (current) => [...(current ?? []), 2])).toEqual([1, 2]);
+        expect(cache.getRemainingTtl('a')).toBe(1000);
+        expect(cache.update('b', (current) => current ?? [0])).toEqual([0]);
+        expect(cache.update('a', () => undefined)).toBeUndefined();
+        expect(cache.has('a')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should increment numbers, starting missing keys at zero', () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+
+      expect(cache.increment('hits')).toBe(1);
+      expect(cache.increment('hits', 5)).toBe(6);
+      expect(cache.increment('hits', -2)).toBe(4);
+      expect(() => cache.increment('hits', NaN)).toThrow('Delta must be a finite number');
+    });
+
+    it('should call the factory once for concurrent getOrSet calls', async () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      const factory = jest.fn(async () => 42);
+
+      const values = await Promise.all([
+        cache.getOrSet('a', factory),
+        cache.getOrSet('a', factory),
+      ]);
+
+      expect(values).toEqual([42, 42]);
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(await cache.getOrSet('a', () => 0)).toBe(42);
+    });
+
+    it('should not store a factory value superseded by a set', async () => {
+      const cache = new LRUCache<string, number>({ maxItems: 10 });
+      let resolve: (value: number) => void = () => undefined;
+      const pending = cache.getOrSet('a', () => new Promise<number>((r) => (resolve = r)));
+
+      cache.set('a', 1);
+      resolve(2);
+
+      expect(await pending).toBe(2);
+      expect(cache.get('a')).toBe(1);
+    });
+
+    it('should send factory values to the writer', async () => {
+      const write = jest.fn(async () => undefined);
+      const cache = new LRUCache<string, number>({
+        maxItems: 10,
+        writer: { write, delete: async () => undefined },
+      });
+
+      await cache.getOrSet('a', () => 1);
+      await cache.flush();
+
+      expect(write).toHaveBeenCalledWith('a', 1);
+    });
+
+    it('should run the factory when a pending load finds nothing', async () => {
+      const cache = new LRUCache<string, number>({
+        maxItems: 10,
+        loader: async () => undefined,
+      });
+
+      const fetched = cache.fetch('a');
+      const value = await cache.getOrSet('a', () => 7);
+
+      expect(await fetched).toBeUndefined();
+      expect(value).toBe(7);
+      expect(cache.get('a')).toBe(7);
+    });
+  });
 });
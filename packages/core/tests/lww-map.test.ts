@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateSize } from '../src/components/size-estimator';
+import { HybridTimestamp } from '../src/core/hybrid-clock';
+import { LWWMap } from '../src/crdt/lww-map';
+
+const at = (wallTime: number, nodeId: string = 'a'): HybridTimestamp => ({
+  wallTime,
+  logical: 0,
+  nodeId,
+});
+
+describe('LWWMap', () => {
+  it('should set, get and delete keys', () => {
+    const map = new LWWMap<number>().set('x', 1, at(1)).set('y', 2, at(2)).delete('x', at(3));
+
+    expect(map.get('y')).toBe(2);
+    expect(map.get('x')).toBeUndefined();
+    expect(map.has('x')).toBe(false);
+    expect(map.keys()).toEqual(['y']);
+    expect(map.size).toBe(1);
+  });
+
+  it('should ignore writes older than the latest for a key', () => {
+    const map = new LWWMap<string>().set('x', 'new', at(5));
+
+    expect(map.set('x', 'old', at(4))).toBe(map);
+    expect(map.delete('x', at(4)).get('x')).toBe('new');
+  });
+
+  it('should keep the latest write per key when merging', () => {
+    const left = new LWWMap<string>().set('x', 'left', at(1, 'a')).set('y', 'only-left', at(1));
+    const right = new LWWMap<string>().set('x', 'right', at(1, 'b')).delete('y', at(0));
+
+    const merged = left.merge(right);
+
+    expect(merged.get('x')).toBe('right');
+    expect(merged.get('y')).toBe('only-left');
+    expect(right.merge(left).toJSON()).toEqual(merged.toJSON());
+  });
+
+  it('should not revive a key deleted later than a merged write', () => {
+    const written = new LWWMap<string>().set('x', 'v', at(1));
+    const deleted = written.delete('x', at(2));
+
+    expect(written.merge(deleted).has('x')).toBe(false);
+  });
+
+  it('should produce deltas holding only later writes', () => {
+    const remote = new LWWMap<number>().set('x', 1, at(1)).set('y', 1, at(1));
+    const local = remote.set('y', 2, at(2)).set('z', 3, at(3));
+
+    const delta = local.delta(remote);
+
+    expect(delta.keys()).toEqual(['y', 'z']);
+    expect(remote.merge(delta).toJSON()).toEqual(local.toJSON());
+  });
+
+  it('should round-trip through JSON', () => {
+    const map = new LWWMap<string>().set('x', 'v', at(1)).delete('y', at(2));
+    const restored = LWWMap.fromJSON<string>(JSON.stringify(map));
+
+    expect(restored.toJSON()).toEqual(map.toJSON());
+    expect(() => LWWMap.fromJSON('[]')).toThrow('Invalid LWW-map: expected an object');
+    expect(() => LWWMap.fromJSON({ x: { value: 1 } } as never)).toThrow(
+      'Invalid LWW-map entry for key "x"',
+    );
+  });
+
+  it('should report the size of its serialized form', () => {
+    const map = new LWWMap<string>().set('x', 'v', at(1));
+
+    expect(estimateSize(map)).toBe(estimateSize(map.toJSON()));
+  });
+});
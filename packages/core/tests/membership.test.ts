@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { Membership, MembershipOptions } from '../src/cluster/membership';
+import { RpcEndpoint } from '../src/cluster/rpc';
+
+const timings: MembershipOptions = {
+  protocolPeriodMs: 100,
+  pingTimeoutMs: 20,
+  suspicionTimeoutMs: 300,
+};
+
+/**
+ * Deterministic source of randomness (mulberry32), so probe orders are the same every run
+ */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+async function createCluster(ids: string[], options: MembershipOptions = {}, seed = 1) {
+  const network = new InMemoryNetwork();
+  const nodes = ids.map(
+    (id, index) =>
+      new Membership(new RpcEndpoint(network.createTransport(id)), {
+        ...timings,
+        seeds: [ids[0]!],
+        random: seededRandom(seed + index),
+        ...options,
+      }),
+  );
+
+  const started = Promise.all(nodes.map((node) => node.start()));
+  await jest.advanceTimersByTimeAsync(10);
+  await started;
+
+  return { network, nodes };
+}
+
+describe('Membership', () => {
+  let nodes: Membership[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    nodes.forEach((node) => node.stop());
+    nodes = [];
+    jest.useRealTimers();
+  });
+
+  it('should reject invalid timings', () => {
+    const rpc = new RpcEndpoint(new InMemoryNetwork().createTransport('a'));
+    expect(() => new Membership(rpc, { protocolPeriodMs: 0 })).toThrow();
+    expect(() => new Membership(rpc, { protocolPeriodMs: 100, pingTimeoutMs: 50 })).toThrow();
+  });
+
+  it('should discover every member through a seed node', async () => {
+    const cluster = await createCluster(['a', 'b', 'c', 'd']);
+    nodes = cluster.nodes;
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    for (const node of nodes) {
+      expect(node.getMembers()).toHaveLength(4);
+      expect(node.getPeers().sort()).toEqual(
+        ['a', 'b', 'c', 'd'].filter((id) => id !== node.localId),
+      );
+    }
+  });
+
+  it('should mark unreachable members suspect and then dead', async () => {
+    const cluster = await createCluster(['a', 'b', 'c']);
+    nodes = cluster.nodes;
+    const [a, b] = nodes as [Membership, Membership, Membership];
+    const events: string[] = [];
+    a.on('suspect', (member) => events.push(`suspect:${member.id}`));
+    a.on('dead', (member) => events.push(`dead:${member.id}`));
+
+    await jest.advanceTimersByTimeAsync(500);
+    cluster.network.disconnect('c');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(events).toEqual(['suspect:c', 'dead:c']);
+    expect(a.getMember('c')?.status).toBe('dead');
+    expect(b.getMember('c')?.status).toBe('dead');
+    expect(a.getPeers()).toEqual(['b']);
+  });
+
+  it('should bring members back once they become reachable again', async () => {
+    const cluster = await createCluster(['a', 'b', 'c']);
+    nodes = cluster.nodes;
+    const [a, b, c] = nodes as [Membership, Membership, Membership];
+    const alive = jest.fn();
+
+    await jest.advanceTimersByTimeAsync(500);
+    cluster.network.disconnect('c');
+    await jest.advanceTimersByTimeAsync(2000);
+    a.on('alive', alive);
+
+    cluster.network.reconnect('c');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(a.getMember('c')?.status).toBe('alive');
+    expect(b.getMember('c')?.status).toBe('alive');
+    expect(c.getPeers().sort()).toEqual(['a', 'b']);
+    expect(c.getMember('c')?.incarnation).toBeGreaterThan(0);
+    expect(alive).toHaveBeenCalledWith(expect.objectContaining({ id: 'c', status: 'alive' }));
+  });
+
+  it('should use indirect pings to avoid false suspicion', async () => {
+    const cluster = await createCluster(['a', 'b', 'c']);
+    nodes = cluster.nodes;
+    const suspect = jest.fn();
+    nodes.forEach((node) => node.on('suspect', suspect));
+
+    await jest.advanceTimersByTimeAsync(500);
+    cluster.network.partition(['a'], ['b']);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(suspect).not.toHaveBeenCalled();
+    expect(nodes[0]!.getMember('b')?.status).toBe('alive');
+  });
+
+  it('should let a suspected member refute with a higher incarnation', async () => {
+    const cluster = await createCluster(['a', 'b', 'c'], { suspicionTimeoutMs: 5000 });
+    nodes = cluster.nodes;
+    const [a, , c] = nodes as [Membership, Membership, Membership];
+
+    await jest.advanceTimersByTimeAsync(500);
+    cluster.network.disconnect('c');
+    await jest.advanceTimersByTimeAsync(400);
+    expect(a.getMember('c')?.status).toBe('suspect');
+
+    cluster.network.reconnect('c');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(a.getMember('c')).toEqual({ id: 'c', status: 'alive', incarnation: 1 });
+    expect(c.getMember('c')?.incarnation).toBe(1);
+  });
+
+  it('should refute a failure rumour older than its incarnation', async () => {
+    const cluster = await createCluster(['a', 'c']);
+    nodes = cluster.nodes;
+    const observer = new RpcEndpoint(cluster.network.createTransport('x'));
+    const ping = async (status: 'suspect' | 'dead') => {
+      const response = observer.request<{ updates: unknown[] }>(
+        'c',
+        'swim.ping',
+        { updates: [{ id: 'c', status, incarnation: 0 }] },
+        50,
+      );
+      await jest.advanceTimersByTimeAsync(10);
+      return (await response).updates;
+    };
+
+    await ping('suspect');
+    await jest.advanceTimersByTimeAsync(1000);
+    const updates = await ping('dead');
+    observer.close();
+
+    expect(nodes[1]!.getMember('c')?.incarnation).toBe(1);
+    expect(updates).toContainEqual({ id: 'c', status: 'alive', incarnation: 1 });
+  });
+});
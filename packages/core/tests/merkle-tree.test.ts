@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { MerkleTree } from '../src/components/merkle-tree';
+import { VersionedStore } from '../src/core/versioned-store';
+
+describe('MerkleTree', () => {
+  it('should reject invalid depths', () => {
+    expect(() => new MerkleTree({ depth: 0 })).toThrow();
+    expect(() => new MerkleTree({ depth: 21 })).toThrow();
+    expect(() => new MerkleTree({ depth: 2.5 })).toThrow();
+  });
+
+  it('should start with an empty root', () => {
+    const tree = new MerkleTree<string>({ depth: 4 });
+
+    expect(tree.leafCount).toBe(16);
+    expect(tree.rootHash).toBe(0);
+    expect(tree.size).toBe(0);
+  });
+
+  it('should produce the same root regardless of update order', () => {
+    const left = new MerkleTree<string>({ depth: 4 });
+    const right = new MerkleTree<string>({ depth: 4 });
+
+    left.update('a', '1');
+    left.update('b', '1');
+    right.update('b', '1');
+    right.update('a', '1');
+
+    expect(left.rootHash).not.toBe(0);
+    expect(left.rootHash).toBe(right.rootHash);
+  });
+
+  it('should change the root when a version changes and restore it when reverted', () => {
+    const tree = new MerkleTree<string>({ depth: 4 });
+    tree.update('a', '1');
+    const original = tree.rootHash;
+
+    tree.update('a', '2');
+    expect(tree.rootHash).not.toBe(original);
+
+    tree.update('a', '1');
+    expect(tree.rootHash).toBe(original);
+    expect(tree.size).toBe(1);
+  });
+
+  it('should return to an empty root once every key is removed', () => {
+    const tree = new MerkleTree<string>({ depth: 4 });
+    tree.update('a', '1');
+    tree.update('b', '1');
+
+    expect(tree.remove('a')).toBe(true);
+    expect(tree.remove('a')).toBe(false);
+    tree.remove('b');
+
+    expect(tree.rootHash).toBe(0);
+    expect(tree.size).toBe(0);
+  });
+
+  it('should report only the ranges containing divergent keys', () => {
+    const left = new MerkleTree<string>({ depth: 8 });
+    const right = new MerkleTree<string>({ depth: 8 });
+
+    for (let i = 0; i < 100; i++) {
+      left.update(`key-${i}`, '1');
+      right.update(`key-${i}`, '1');
+    }
+    right.update('key-42', '2');
+    right.update('extra', '1');
+
+    const ranges = left.diff(right);
+
+    expect(ranges.length).toBeGreaterThan(0);
+    expect(ranges.length).toBeLessThanOrEqual(2);
+    expect(right.keysInRanges(ranges)).toEqual(expect.arrayContaining(['key-42', 'extra']));
+    expect(left.keysInRanges(ranges)).toContain('key-42');
+    expect(right.diffLeaves(left.leafHashes())).toEqual(ranges);
+  });
+
+  it('should merge adjacent differing buckets into a single range', () => {
+    const left = new MerkleTree<string>({ depth: 1 });
+    const right = new MerkleTree<string>({ depth: 1 });
+    const buckets = new Set<number>();
+
+    // Add keys until both buckets hold at least one
+    for (let i = 0; buckets.size < 2; i++) {
+      right.update(`key-${i}`, '1');
+      buckets.add(right.bucketOf(`key-${i}`));
+    }
+
+    expect(left.diff(right)).toEqual([{ start: 0, end: 2 }]);
+  });
+
+  it('should return no ranges for identical trees', () => {
+    const left = new MerkleTree<string>({ depth: 4 });
+    const right = new MerkleTree<string>({ depth: 4 });
+    left.update('a', '1');
+    right.update('a', '1');
+
+    expect(left.diff(right)).toEqual([]);
+    expect(left.diffLeaves(right.leafHashes())).toEqual([]);
+  });
+
+  it('should refuse to compare trees of different depths', () => {
+    const tree = new MerkleTree<string>({ depth: 4 });
+
+    expect(() => tree.diff(new MerkleTree<string>({ depth: 5 }))).toThrow();
+    expect(() => tree.diffLeaves([0, 0])).toThrow();
+  });
+
+  it('should clear every key', () => {
+    const tree = new MerkleTree<string>({ depth: 4 });
+    tree.update('a', '1');
+    tree.clear();
+
+    expect(tree.rootHash).toBe(0);
+    expect(tree.keysInRanges([{ start: 0, end: 16 }])).toEqual([]);
+  });
+});
+
+describe('VersionedStore Merkle tree', () => {
+  it('should agree between replicas holding the same versions', () => {
+    const a = new VersionedStore<string, string>({ nodeId: 'a', merkleDepth: 6 });
+    const b = new VersionedStore<string, string>({ nodeId: 'b', merkleDepth: 6 });
+
+    b.merge('k', [a.put('k', 'v')]);
+
+    expect(a.diffMerkleLeaves(b.merkleLeaves())).toEqual([]);
+  });
+
+  it('should track writes, deletes and evictions', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a', merkleDepth: 6, maxItems: 2 });
+    const empty = new VersionedStore<string, string>({ nodeId: 'b', merkleDepth: 6 });
+    const all = [{ start: 0, end: 64 }];
+
+    store.put('a', '1');
+    store.put('b', '2');
+    store.put('c', '3');
+    expect(store.keysInRanges(all).sort()).toEqual(['b', 'c']);
+
+    // Tombstones stay in the tree so deletes replicate
+    store.delete('b');
+    expect(store.keysInRanges(all).sort()).toEqual(['b', 'c']);
+
+    store.put('d', '4');
+    expect(store.keysInRanges(all).sort()).toEqual(['b', 'd']);
+
+    store.clear();
+    expect(store.diffMerkleLeaves(empty.merkleLeaves())).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import { HintedHandoff } from '../src/cluster/hinted-handoff';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { Membership } from '../src/cluster/membership';
+import { RpcEndpoint } from '../src/cluster/rpc';
+import { LRUCache } from '../src/core/lru-cache';
+import { cacheMetrics, hintedHandoffMetrics, membershipMetrics } from '../src/metrics/collectors';
+import { MetricFamily, MetricsRegistry } from '../src/metrics/registry';
+
+function counter(name: string, value: number, labels?: Record<string, string>): MetricFamily {
+  return { name, help: `Help for ${name}`, type: 'counter', samples: [{ labels, value }] };
+}
+
+describe('MetricsRegistry', () => {
+  it('should render metrics in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry.register(() => [
+      counter('requests_total', 3, { method: 'get', path: '/a' }),
+      {
+        name: 'temperature',
+        help: 'Current temperature',
+        type: 'gauge',
+        samples: [{ value: 21.5 }],
+      },
+    ]);
+
+    expect(registry.toPrometheus()).toBe(
+      [
+        '# HELP requests_total Help for requests_total',
+        '# TYPE requests_total counter',
+        'requests_total{method="get",path="/a"} 3',
+        '# HELP temperature Current temperature',
+        '# TYPE temperature gauge',
+        'temperature 21.5',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should escape label values, help text and special numbers', () => {
+    const registry = new MetricsRegistry();
+    registry.register(() => [
+      {
+        name: 'odd',
+        help: 'Line one\nback\\slash',
+        type: 'gauge',
+        samples: [
+          { labels: { label: 'say "hi"\n\\' }, value: Infinity },
+          { labels: { label: 'b' }, value: NaN },
+        ],
+      },
+    ]);
+
+    expect(registry.toPrometheus()).toBe(
+      [
+        '# HELP odd Line one\\nback\\\\slash',
+        '# TYPE odd gauge',
+        'odd{label="say \\"hi\\"\\n\\\\"} +Inf',
+        'odd{label="b"} NaN',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should merge families reported by several collectors', () => {
+    const registry = new MetricsRegistry();
+    registry.register(() => [counter('hits_total', 1, { cache: 'a' })]);
+    registry.register(() => [counter('hits_total', 2, { cache: 'b' })]);
+
+    expect(registry.collect()).toEqual([
+      {
+        name: 'hits_total',
+        help: 'Help for hits_total',
+        type: 'counter',
+        samples: [
+          { labels: { cache: 'a' }, value: 1 },
+          { labels: { cache: 'b' }, value: 2 },
+        ],
+      },
+    ]);
+  });
+
+  it('should reject conflicting types and invalid names', () => {
+    const conflicting = new MetricsRegistry();
+    conflicting.register(() => [counter('x', 1)]);
+    conflicting.register(() => [{ ...counter('x', 1), type: 'gauge' }]);
+    expect(() => conflicting.collect()).toThrow('Metric x is reported as both counter and gauge');
+
+    const badName = new MetricsRegistry();
+    badName.register(() => [counter('bad-name', 1)]);
+    expect(() => badName.toPrometheus()).toThrow('Invalid metric name: bad-name');
+
+    const badLabel = new MetricsRegistry();
+    badLabel.register(() => [counter('x', 1, { __reserved: 'v' })]);
+    expect(() => badLabel.toPrometheus()).toThrow('Invalid label name on x: __reserved');
+  });
+
+  it('should stop reporting unregistered collectors', () => {
+    const registry = new MetricsRegistry();
+    const unregister = registry.register(() => [counter('x', 1)]);
+
+    unregister();
+
+    expect(registry.toPrometheus()).toBe('');
+  });
+});
+
+describe('collectors', () => {
+  it('should report cache stats with the given labels', () => {
+    const cache = new LRUCache<string, string>({ maxItems: 1, sizeCalculator: (v) => v.length });
+    const registry = new MetricsRegistry();
+    registry.register(cacheMetrics(cache, { cache: 'users' }));
+
+    cache.set('a', 'xx');
+    cache.set('b', 'xxx');
+    cache.get('b');
+    cache.get('a');
+
+    const output = registry.toPrometheus();
+    expect(output).toContain('gossipstore_cache_hits_total{cache="users"} 1\n');
+    expect(output).toContain('gossipstore_cache_misses_total{cache="users"} 1\n');
+    expect(output).toContain(
+      'gossipstore_cache_evictions_total{cache="users",reason="capacity"} 1\n',
+    );
+    expect(output).toContain(
+      'gossipstore_cache_evictions_total{cache="users",reason="expired"} 0\n',
+    );
+    expect(output).toContain('gossipstore_cache_entries{cache="users"} 1\n');
+    expect(output).toContain('gossipstore_cache_memory_high_water_bytes{cache="users"} 3\n');
+  });
+
+  it('should report cluster members by status', () => {
+    const membership = new Membership(new RpcEndpoint(new InMemoryNetwork().createTransport('a')));
+    const registry = new MetricsRegistry();
+    registry.register(membershipMetrics(membership));
+
+    const output = registry.toPrometheus();
+    expect(output).toContain('gossipstore_membership_members{status="alive"} 1\n');
+    expect(output).toContain('gossipstore_membership_members{status="dead"} 0\n');
+    expect(output).toContain('gossipstore_membership_probes_total 0\n');
+  });
+
+  it('should report pending hints', () => {
+    const hints = new HintedHandoff<string>(async () => undefined);
+    const registry = new MetricsRegistry();
+    registry.register(hintedHandoffMetrics(hints, { node: 'a' }));
+
+    expect(registry.toPrometheus()).toContain('gossipstore_hinted_handoff_hints{node="a"} 0\n');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateSize } from '../src/components/size-estimator';
+import { ORSet } from '../src/crdt/or-set';
+
+describe('ORSet', () => {
+  it('should add and remove elements without changing the original', () => {
+    const empty = new ORSet<string>();
+    const set = empty.add('a', 'x').add('a', 'y').remove('x');
+
+    expect(set.values()).toEqual(['y']);
+    expect(set.has('x')).toBe(false);
+    expect(set.size).toBe(1);
+    expect(empty.size).toBe(0);
+  });
+
+  it('should ignore removing an absent element', () => {
+    const set = new ORSet<string>().add('a', 'x');
+
+    expect(set.remove('y')).toBe(set);
+  });
+
+  it('should tag every add uniquely per node', () => {
+    const set = new ORSet<string>().add('a', 'x').remove('x').add('a', 'x').add('b', 'x');
+
+    expect(set.toJSON()).toEqual({ elements: [['x', ['a:2', 'b:1']]], removed: ['a:1'] });
+  });
+
+  it('should let an add win over a concurrent remove', () => {
+    const base = new ORSet<string>().add('a', 'x');
+    const removed = base.remove('x');
+    const readded = base.add('b', 'x');
+
+    expect(removed.merge(readded).has('x')).toBe(true);
+    expect(readded.merge(removed).has('x')).toBe(true);
+  });
+
+  it('should not revive a removed element when merging an older state', () => {
+    const base = new ORSet<string>().add('a', 'x').add('a', 'y');
+    const removed = base.remove('x');
+
+    expect(removed.merge(base).values()).toEqual(['y']);
+    expect(base.merge(removed).values()).toEqual(['y']);
+  });
+
+  it('should produce deltas holding only unseen adds and removes', () => {
+    const remote = new ORSet<string>().add('a', 'x').add('a', 'y');
+    const local = remote.remove('x').add('b', 'z');
+
+    const delta = local.delta(remote);
+
+    expect(delta.toJSON()).toEqual({ elements: [['z', ['b:1']]], removed: ['a:1'] });
+    expect(remote.merge(delta).toJSON()).toEqual(remote.merge(local).toJSON());
+  });
+
+  it('should round-trip through JSON', () => {
+    const set = new ORSet<number>().add('a', 1).add('a', 2).remove(1);
+    const restored = ORSet.fromJSON<number>(JSON.stringify(set));
+
+    expect(restored.values()).toEqual([2]);
+    expect(restored.add('a', 1).toJSON().elements).toContainEqual([1, ['a:3']]);
+    expect(() => ORSet.fromJSON('{}')).toThrow(
+      'Invalid OR-set: expected elements and removed arrays',
+    );
+    expect(() => ORSet.fromJSON({ elements: [[{}, []]], removed: [] } as never)).toThrow(
+      'Invalid OR-set element',
+    );
+  });
+
+  it('should report the size of its serialized form', () => {
+    const set = new ORSet<string>().add('a', 'x');
+
+    expect(estimateSize(set)).toBe(estimateSize(set.toJSON()));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import { PNCounter } from '../src/crdt/pn-counter';
+
+describe('PNCounter', () => {
+  it('should start at zero', () => {
+    expect(new PNCounter().value).toBe(0);
+  });
+
+  it('should add and subtract per node without changing the original', () => {
+    const counter = new PNCounter();
+    const changed = counter.increment('a', 5).increment('b').increment('a', -2);
+
+    expect(changed.value).toBe(4);
+    expect(counter.value).toBe(0);
+    expect(changed.toJSON()).toEqual({ p: { a: 5, b: 1 }, n: { a: 2 } });
+  });
+
+  it('should reject non-finite deltas', () => {
+    expect(() => new PNCounter().increment('a', NaN)).toThrow('Delta must be a finite number');
+  });
+
+  it('should merge concurrent changes without double counting', () => {
+    const base = new PNCounter().increment('a', 3);
+    const left = base.increment('a', 1);
+    const right = base.increment('b', -2);
+
+    const merged = left.merge(right);
+
+    expect(merged.value).toBe(2);
+    expect(merged.merge(left).merge(right).value).toBe(2);
+    expect(right.merge(left).toJSON()).toEqual(merged.toJSON());
+  });
+
+  it('should round-trip through JSON', () => {
+    const counter = new PNCounter().increment('a', 3).increment('b', -1);
+
+    expect(PNCounter.fromJSON(JSON.stringify(counter)).value).toBe(2);
+    expect(() => PNCounter.fromJSON({ p: { a: -1 }, n: {} })).toThrow(
+      'Invalid PN-counter total for node "a"',
+    );
+    expect(() => PNCounter.fromJSON('{}')).toThrow('Invalid PN-counter');
+  });
+
+  it('should merge serialized siblings', () => {
+    const a = new PNCounter().increment('a', 2).toJSON();
+    const b = new PNCounter().increment('b', 3).toJSON();
+
+    expect(PNCounter.mergeAll([a, b]).value).toBe(5);
+    expect(PNCounter.mergeAll([]).value).toBe(0);
+  });
+
+  it('should produce deltas holding only unseen changes', () => {
+    const remote = new PNCounter().increment('a', 2);
+    const local = remote.increment('a', 1).increment('b', -4);
+
+    const delta = local.delta(remote);
+
+    expect(delta.toJSON()).toEqual({ p: { a: 3 }, n: { b: 4 } });
+    expect(remote.merge(delta).toJSON()).toEqual(local.toJSON());
+  });
+});
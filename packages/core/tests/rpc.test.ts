@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { InMemoryNetwork } from '../src/cluster/in-memory-transport';
+import { RpcEndpoint, RpcError, RpcTimeoutError } from '../src/cluster/rpc';
+
+describe('RpcEndpoint', () => {
+  let network: InMemoryNetwork;
+  let client: RpcEndpoint;
+  let server: RpcEndpoint;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    network = new InMemoryNetwork();
+    client = new RpcEndpoint(network.createTransport('client'));
+    server = new RpcEndpoint(network.createTransport('server'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve with the handler response', async () => {
+    server.register('echo', (from, payload) => ({ from, payload }));
+
+    const response = client.request('server', 'echo', 42, 100);
+    await jest.advanceTimersByTimeAsync(10);
+
+    await expect(response).resolves.toEqual({ from: 'client', payload: 42 });
+  });
+
+  it('should support asynchronous handlers', async () => {
+    server.register('slow', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return 'done';
+    });
+
+    const response = client.request('server', 'slow', null, 100);
+    await jest.advanceTimersByTimeAsync(30);
+
+    await expect(response).resolves.toBe('done');
+  });
+
+  it('should reject with an RpcError when the handler throws', async () => {
+    server.register('fail', () => {
+      throw new Error('boom');
+    });
+
+    const response = client.request('server', 'fail', null, 100);
+    const assertion = expect(response).rejects.toThrow(new RpcError('boom'));
+    await jest.advanceTimersByTimeAsync(10);
+
+    await assertion;
+  });
+
+  it('should reject unknown methods', async () => {
+    const response = client.request('server', 'missing', null, 100);
+    const assertion = expect(response).rejects.toBeInstanceOf(RpcError);
+    await jest.advanceTimersByTimeAsync(10);
+
+    await assertion;
+  });
+
+  it('should time out when the peer is unreachable', async () => {
+    server.register('echo', (_from, payload) => payload);
+    network.disconnect('server');
+
+    const response = client.request('server', 'echo', 1, 50);
+    const assertion = expect(response).rejects.toBeInstanceOf(RpcTimeoutError);
+    await jest.advanceTimersByTimeAsync(50);
+
+    await assertion;
+  });
+
+  it('should not allow registering a method twice', () => {
+    server.register('echo', () => null);
+    expect(() => server.register('echo', () => null)).toThrow();
+  });
+
+  it('should reject pending requests when closed', async () => {
+    network.disconnect('server');
+
+    const response = client.request('server', 'echo', 1, 50);
+    client.close();
+
+    await expect(response).rejects.toThrow('Endpoint closed');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateSize, estimatedSize } from '../src/components/size-estimator';
+
+describe('estimateSize', () => {
+  it('should size primitives', () => {
+    expect(estimateSize(undefined)).toBe(0);
+    expect(estimateSize(null)).toBe(0);
+    expect(estimateSize(true)).toBe(4);
+    expect(estimateSize(42)).toBe(8);
+    expect(estimateSize('abc')).toBe(6);
+  });
+
+  it('should size bigints by magnitude', () => {
+    expect(estimateSize(1n)).toBe(24);
+    expect(estimateSize(2n ** 64n)).toBe(32);
+    expect(estimateSize(-(2n ** 64n))).toBe(32);
+  });
+
+  it('should count the keys and contents of nested objects', () => {
+    const inner = { b: 'xy' };
+
+    expect(estimateSize({ a: 1 })).toBe(16 + 2 + 8);
+    expect(estimateSize({ a: inner })).toBe(16 + 2 + 16 + 2 + 4);
+  });
+
+  it('should count the contents of arrays', () => {
+    expect(estimateSize([])).toBe(16);
+    expect(estimateSize(['abcd', 'abcd'])).toBe(16 + 16);
+    expect(estimateSize([{ a: 1 }])).toBeGreaterThan(estimateSize([1]));
+  });
+
+  it('should count the keys and values of Maps and Sets', () => {
+    expect(estimateSize(new Map([['ab', 1]]))).toBe(16 + 4 + 8);
+    expect(estimateSize(new Set(['ab', 'cd']))).toBe(16 + 8);
+  });
+
+  it('should count binary data by its byte length', () => {
+    expect(estimateSize(Buffer.alloc(1000))).toBe(1016);
+    expect(estimateSize(new ArrayBuffer(64))).toBe(80);
+    expect(estimateSize(new Float64Array(10))).toBe(96);
+    expect(estimateSize(new DataView(new ArrayBuffer(8)))).toBe(24);
+  });
+
+  it('should count shared objects once', () => {
+    const shared = { value: 'x'.repeat(100) };
+
+    expect(estimateSize([shared, shared])).toBe(16 + estimateSize(shared));
+  });
+
+  it('should terminate on cycles', () => {
+    const node: { name: string; self?: unknown } = { name: 'a' };
+    node.self = node;
+
+    expect(estimateSize(node)).toBe(16 + 8 + 2 + 8);
+  });
+
+  it('should handle deeply nested values', () => {
+    let value: unknown = null;
+    for (let i = 0; i < 100_000; i++) value = [value];
+
+    expect(estimateSize(value)).toBe(100_000 * 16);
+  });
+
+  it('should use the size values report instead of walking them', () => {
+    const reporter = { [estimatedSize]: () => 500, payload: 'x'.repeat(1000) };
+
+    expect(estimateSize(reporter)).toBe(500);
+    expect(estimateSize([reporter, reporter])).toBe(16 + 500);
+  });
+});
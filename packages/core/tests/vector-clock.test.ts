@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { mergeClocks, VectorClock } from '../src/core/vector-clock';
+
+describe('VectorClock', () => {
+  it('should start empty', () => {
+    const clock = new VectorClock();
+    expect(clock.size).toBe(0);
+    expect(clock.get('a')).toBe(0);
+  });
+
+  describe('increment', () => {
+    it('should increment the counter for a node', () => {
+      const clock = new VectorClock().increment('a').increment('a').increment('b');
+
+      expect(clock.get('a')).toBe(2);
+      expect(clock.get('b')).toBe(1);
+      expect(clock.nodeIds).toEqual(['a', 'b']);
+    });
+
+    it('should not mutate the original clock', () => {
+      const original = new VectorClock().increment('a');
+      original.increment('a');
+
+      expect(original.get('a')).toBe(1);
+    });
+  });
+
+  describe('compare', () => {
+    it('should report equal clocks', () => {
+      const a = new VectorClock().increment('a', 1);
+      const b = new VectorClock().increment('a', 2);
+
+      expect(a.compare(b)).toBe('equal');
+      expect(new VectorClock().compare(new VectorClock())).toBe('equal');
+    });
+
+    it('should report before and after', () => {
+      const older = new VectorClock().increment('a');
+      const newer = older.increment('b');
+
+      expect(older.compare(newer)).toBe('before');
+      expect(newer.compare(older)).toBe('after');
+      expect(newer.descends(older)).toBe(true);
+      expect(older.descends(newer)).toBe(false);
+    });
+
+    it('should report concurrent clocks', () => {
+      const base = new VectorClock().increment('a');
+      const left = base.increment('a');
+      const right = base.increment('b');
+
+      expect(left.compare(right)).toBe('concurrent');
+      expect(right.compare(left)).toBe('concurrent');
+      expect(left.descends(right)).toBe(false);
+    });
+  });
+
+  describe('merge', () => {
+    it('should take the maximum counter per node', () => {
+      const left = new VectorClock().increment('a').increment('a');
+      const right = new VectorClock().increment('a').increment('b');
+
+      const merged = left.merge(right);
+
+      expect(merged.get('a')).toBe(2);
+      expect(merged.get('b')).toBe(1);
+      expect(merged.descends(left)).toBe(true);
+      expect(merged.descends(right)).toBe(true);
+    });
+
+    it('should merge the clocks of several versions', () => {
+      const a = { clock: new VectorClock().increment('a') };
+      const b = { clock: new VectorClock().increment('b').increment('b') };
+
+      const merged = mergeClocks([a, b]);
+
+      expect(merged.get('a')).toBe(1);
+      expect(merged.get('b')).toBe(2);
+      expect(mergeClocks([]).size).toBe(0);
+    });
+  });
+
+  describe('prune', () => {
+    it('should drop entries older than the maximum age', () => {
+      const clock = new VectorClock().increment('a', 100).increment('b', 900);
+
+      const pruned = clock.prune({ maxAgeMs: 500 }, 1000);
+
+      expect(pruned.nodeIds).toEqual(['b']);
+    });
+
+    it('should keep the most recently incremented entries', () => {
+      const clock = new VectorClock().increment('a', 300).increment('b', 100).increment('c', 200);
+
+      const pruned = clock.prune({ maxEntries: 2 });
+
+      expect(pruned.nodeIds.sort()).toEqual(['a', 'c']);
+    });
+
+    it('should reject a negative entry limit', () => {
+      expect(() => new VectorClock().prune({ maxEntries: -1 })).toThrow();
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip through JSON', () => {
+      const clock = new VectorClock().increment('a', 10).increment('b', 20).increment('a', 30);
+
+      const restored = VectorClock.fromJSON(JSON.stringify(clock));
+
+      expect(restored.compare(clock)).toBe('equal');
+      expect(restored.toJSON()).toEqual({
+        a: { counter: 2, timestamp: 30 },
+        b: { counter: 1, timestamp: 20 },
+      });
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => VectorClock.fromJSON('[]')).toThrow();
+      expect(() => VectorClock.fromJSON({ a: { counter: -1, timestamp: 0 } })).toThrow();
+      expect(() => VectorClock.fromJSON('{"a":{"counter":1}}')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,418 @@
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { HybridLogicalClock } from '../src/core/hybrid-clock';
+import { VectorClock } from '../src/core/vector-clock';
+import { Versioned, VersionedStore } from '../src/core/versioned-store';
+import { PNCounterJSON } from '../src/crdt/pn-counter';
+
+describe('VersionedStore', () => {
+  it('should require a node id', () => {
+    expect(() => new VersionedStore<string, string>({ nodeId: '' })).toThrow();
+  });
+
+  it('should return undefined for missing keys', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    expect(store.get('missing')).toBeUndefined();
+  });
+
+  it('should store a value with a vector clock', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    const version = store.put('k', 'v1');
+    const result = store.get('k');
+
+    expect(version.clock.get('a')).toBe(1);
+    expect(result?.values).toEqual(['v1']);
+    expect(result?.siblings).toHaveLength(1);
+  });
+
+  it('should replace versions covered by the causal context', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    store.put('k', 'v1');
+    const { context } = store.get('k')!;
+    store.put('k', 'v2', context);
+
+    expect(store.get('k')?.values).toEqual(['v2']);
+    expect(store.get('k')?.siblings[0]?.clock.get('a')).toBe(2);
+  });
+
+  it('should let blind writes from the same node supersede its earlier writes', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    store.put('k', 'v1');
+    store.put('k', 'v2');
+
+    expect(store.get('k')?.values).toEqual(['v2']);
+  });
+
+  it('should keep concurrent writes as siblings', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    const remote: Versioned<string> = {
+      value: 'remote',
+      clock: new VectorClock().increment('b'),
+      timestamp: { wallTime: 0, logical: 0, nodeId: 'b' },
+    };
+
+    store.put('k', 'local');
+    expect(store.merge('k', [remote])).toBe(true);
+
+    expect(store.get('k')?.values.sort()).toEqual(['local', 'remote']);
+  });
+
+  it('should resolve siblings when writing with their context', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    store.put('k', 'local');
+    store.merge('k', [
+      {
+        value: 'remote',
+        clock: new VectorClock().increment('b'),
+        timestamp: { wallTime: 0, logical: 0, nodeId: 'b' },
+      },
+    ]);
+    const { context } = store.get('k')!;
+    store.put('k', 'resolved', context);
+
+    const result = store.get('k')!;
+    expect(result.values).toEqual(['resolved']);
+    expect(result.siblings[0]?.clock.get('b')).toBe(1);
+  });
+
+  it('should ignore merged versions that are already known or older', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    const first = store.put('k', 'v1');
+    store.put('k', 'v2', store.get('k')!.context);
+
+    expect(store.merge('k', [first])).toBe(false);
+    expect(store.get('k')?.values).toEqual(['v2']);
+  });
+
+  it('should replace local versions with dominating remote versions', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    const local = store.put('k', 'v1');
+    store.merge('k', [{ ...local, value: 'v2', clock: local.clock.increment('b') }]);
+
+    expect(store.get('k')?.values).toEqual(['v2']);
+  });
+
+  it('should reject malformed causal contexts', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    expect(() => store.put('k', 'v', 'not a context')).toThrow('Invalid causal context');
+  });
+
+  it('should account for memory and evict like an LRUCache', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a', maxItems: 2 });
+
+    store.put('a', '1');
+    store.put('b', '2');
+    store.put('c', '3');
+
+    expect(store.size).toBe(2);
+    expect(store.has('a')).toBe(false);
+    expect(store.memoryUsage).toBeGreaterThan(0);
+  });
+
+  it('should delete and clear keys', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    store.put('a', '1');
+    store.put('b', '2');
+
+    expect(store.delete('a')).toBe(true);
+    expect(store.delete('a')).toBe(false);
+
+    store.clear();
+    expect(store.size).toBe(0);
+    expect(store.memoryUsage).toBe(0);
+  });
+
+  it('should expose versions and keys without changing recency', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a', maxItems: 2 });
+
+    store.put('a', '1');
+    store.put('b', '2');
+
+    expect(store.getVersions('a').map((version) => version.value)).toEqual(['1']);
+    expect([...store.keys()]).toEqual(['b', 'a']);
+
+    store.put('c', '3');
+    expect(store.has('a')).toBe(false);
+    expect(store.getVersions('a')).toEqual([]);
+  });
+
+  it('should round-trip versions through their serialized form', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    const version = store.put('k', 'v');
+
+    const json = JSON.parse(JSON.stringify(VersionedStore.serializeVersion(version)));
+    const restored = VersionedStore.deserializeVersion<string>(json);
+
+    expect(restored.value).toBe('v');
+    expect(restored.timestamp).toEqual(version.timestamp);
+    expect(restored.clock.compare(version.clock)).toBe('equal');
+  });
+
+  it('should round-trip tombstones through their serialized form', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('k', 'v');
+    store.delete('k');
+
+    const [tombstone] = store.getVersions('k');
+    const json = JSON.parse(JSON.stringify(VersionedStore.serializeVersion(tombstone!)));
+
+    expect(VersionedStore.deserializeVersion<string>(json).deleted).toBe(true);
+    expect(VersionedStore.serializeVersion(store.put('k', 'v'))).not.toHaveProperty('deleted');
+  });
+
+  it('should not promote keys when merging versions it already has', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('x', '1');
+    store.put('y', '2');
+
+    expect(store.merge('x', store.getVersions('x'))).toBe(false);
+    expect([...store.keys()]).toEqual(['y', 'x']);
+  });
+});
+
+describe('VersionedStore snapshots', () => {
+  it('should restore siblings, tombstones and recency from a snapshot', () => {
+    const a = new VersionedStore<string, string>({ nodeId: 'a' });
+    const b = new VersionedStore<string, string>({ nodeId: 'b' });
+    a.put('siblings', 'from-a');
+    a.merge('siblings', [b.put('siblings', 'from-b')]);
+    a.put('deleted', 'v');
+    a.delete('deleted');
+    a.put('plain', 'v');
+
+    const restored = new VersionedStore<string, string>({ nodeId: 'a' });
+    expect(restored.load(JSON.parse(JSON.stringify(a.dump())))).toBe(3);
+
+    expect(restored.get('siblings')?.values.sort()).toEqual(['from-a', 'from-b']);
+    expect(restored.has('deleted')).toBe(false);
+    expect(restored.tombstoneCount).toBe(1);
+    expect(restored.keysInRanges([{ start: 0, end: 1024 }]).sort()).toEqual([
+      'deleted',
+      'plain',
+      'siblings',
+    ]);
+    expect(restored.diffMerkleLeaves(a.merkleLeaves())).toEqual([]);
+  });
+
+  it('should keep issuing newer versions after a restore', async () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    const before = store.put('k', 'v1');
+
+    const stream = new PassThrough();
+    await store.dumpTo(stream);
+    stream.end();
+
+    const restored = new VersionedStore<string, string>({ nodeId: 'a' });
+    expect(await restored.loadFrom(stream)).toBe(1);
+
+    const after = restored.put('k', 'v2');
+    expect(after.clock.compare(before.clock)).toBe('after');
+    expect(HybridLogicalClock.compare(after.timestamp, before.timestamp)).toBeGreaterThan(0);
+    expect(restored.get('k')?.values).toEqual(['v2']);
+  });
+});
+
+describe('VersionedStore tombstones', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject an invalid grace period', () => {
+    expect(() => new VersionedStore({ nodeId: 'a', tombstoneGraceMs: 0 })).toThrow();
+  });
+
+  it('should hide deleted keys but keep their tombstone', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('a', '1');
+    store.put('b', '2');
+
+    expect(store.delete('a')).toBe(true);
+
+    expect(store.has('a')).toBe(false);
+    expect(store.get('a')).toBeUndefined();
+    expect([...store.keys()]).toEqual(['b']);
+    expect(store.size).toBe(1);
+    expect(store.tombstoneCount).toBe(1);
+    expect(store.getVersions('a')).toMatchObject([{ deleted: true }]);
+  });
+
+  it('should count tombstones against the memory limit', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('k', 'v');
+    const before = store.memoryUsage;
+
+    store.delete('k');
+
+    expect(store.memoryUsage).toBeGreaterThan(0);
+    expect(store.memoryUsage).toBeLessThan(before);
+  });
+
+  it('should not resurrect deleted keys from replicas holding older versions', () => {
+    const a = new VersionedStore<string, string>({ nodeId: 'a' });
+    const b = new VersionedStore<string, string>({ nodeId: 'b' });
+    b.merge('k', [a.put('k', 'v')]);
+
+    a.delete('k');
+    a.merge('k', b.getVersions('k'));
+    expect(a.has('k')).toBe(false);
+
+    b.merge('k', a.getVersions('k'));
+    expect(b.has('k')).toBe(false);
+    expect(b.tombstoneCount).toBe(1);
+  });
+
+  it('should keep writes concurrent with a delete', () => {
+    const a = new VersionedStore<string, string>({ nodeId: 'a' });
+    const b = new VersionedStore<string, string>({ nodeId: 'b' });
+    const original = a.put('k', 'v1');
+    b.merge('k', [original]);
+
+    a.delete('k');
+    const concurrent = b.put('k', 'v2', b.get('k')!.context);
+    a.merge('k', [concurrent]);
+
+    expect(a.get('k')?.values).toEqual(['v2']);
+    expect(a.getVersions('k')).toHaveLength(2);
+  });
+
+  it('should revive a key written with the context of its tombstone', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('k', 'v1');
+    store.delete('k');
+
+    const context = VersionedStore.toResult(store.getVersions('k')).context;
+    store.put('k', 'v2', context);
+
+    expect(store.get('k')?.values).toEqual(['v2']);
+    expect(store.getVersions('k')).toHaveLength(1);
+    expect(store.tombstoneCount).toBe(0);
+  });
+
+  it('should ignore deletes of missing or already deleted keys', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    expect(store.delete('missing')).toBe(false);
+    expect(store.getVersions('missing')).toEqual([]);
+
+    store.put('k', 'v');
+    store.delete('k');
+    const [tombstone] = store.getVersions('k');
+
+    expect(store.delete('k')).toBe(false);
+    expect(store.getVersions('k')).toEqual([tombstone]);
+  });
+
+  it('should garbage-collect tombstones after the grace period', () => {
+    jest.useFakeTimers();
+    const store = new VersionedStore<string, string>({ nodeId: 'a', tombstoneGraceMs: 1000 });
+    store.put('k', 'v');
+    store.put('live', 'v');
+    store.delete('k');
+
+    jest.advanceTimersByTime(999);
+    expect(store.purgeExpired()).toBe(0);
+
+    jest.advanceTimersByTime(1);
+    expect(store.purgeExpired()).toBe(1);
+    expect(store.getVersions('k')).toEqual([]);
+    expect(store.tombstoneCount).toBe(0);
+    expect(store.size).toBe(1);
+  });
+
+  it('should run the grace period from the delete rather than its arrival', () => {
+    jest.useFakeTimers();
+    const a = new VersionedStore<string, string>({ nodeId: 'a', tombstoneGraceMs: 1000 });
+    const b = new VersionedStore<string, string>({ nodeId: 'b', tombstoneGraceMs: 1000 });
+    b.merge('k', [a.put('k', 'v')]);
+    a.delete('k');
+
+    jest.advanceTimersByTime(600);
+    b.merge('k', a.getVersions('k'));
+    expect(b.tombstoneCount).toBe(1);
+
+    jest.advanceTimersByTime(400);
+    expect(b.purgeExpired()).toBe(1);
+  });
+
+  it('should apply but not keep tombstones that arrive after their grace period', () => {
+    jest.useFakeTimers();
+    const a = new VersionedStore<string, string>({ nodeId: 'a', tombstoneGraceMs: 1000 });
+    const b = new VersionedStore<string, string>({ nodeId: 'b', tombstoneGraceMs: 1000 });
+    b.merge('k', [a.put('k', 'v')]);
+    a.delete('k');
+    const tombstones = a.getVersions('k');
+
+    jest.advanceTimersByTime(1500);
+    b.merge('k', tombstones);
+
+    expect(b.has('k')).toBe(false);
+    expect(b.getVersions('k')).toEqual([]);
+    expect(b.tombstoneCount).toBe(0);
+  });
+});
+
+describe('VersionedStore atomic operations', () => {
+  it('should compare and set against the causal context', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+    store.put('k', 'v1');
+    const { context } = store.get('k')!;
+
+    expect(store.compareAndSet('k', context, 'v2')).toBeDefined();
+    expect(store.compareAndSet('k', context, 'v3')).toBeUndefined();
+    expect(store.get('k')?.values).toEqual(['v2']);
+  });
+
+  it('should fail a compare and set once a replica version is merged in', () => {
+    const a = new VersionedStore<string, string>({ nodeId: 'a' });
+    const b = new VersionedStore<string, string>({ nodeId: 'b' });
+    a.put('k', 'v1');
+    const { context } = a.get('k')!;
+
+    a.merge('k', [b.put('k', 'remote')]);
+
+    expect(a.compareAndSet('k', context, 'v2')).toBeUndefined();
+  });
+
+  it('should only create keys without a live value when no context is expected', () => {
+    const store = new VersionedStore<string, string>({ nodeId: 'a' });
+
+    expect(store.compareAndSet('k', undefined, 'v1')).toBeDefined();
+    expect(store.compareAndSet('k', undefined, 'v2')).toBeUndefined();
+
+    store.delete('k');
+    expect(store.compareAndSet('k', undefined, 'v3')).toBeDefined();
+    expect(store.getVersions('k').map((version) => version.value)).toEqual(['v3']);
+  });
+
+  it('should update a key from all of its siblings', () => {
+    const a = new VersionedStore<string, string[]>({ nodeId: 'a' });
+    const b = new VersionedStore<string, string[]>({ nodeId: 'b' });
+    a.put('k', ['x']);
+    a.merge('k', [b.put('k', ['y'])]);
+
+    a.update('k', (current) => [...new Set(current!.values.flat())].sort());
+
+    expect(a.get('k')?.values).toEqual([['x', 'y']]);
+  });
+
+  it('should keep increments made concurrently on other replicas', () => {
+    const a = new VersionedStore<string, PNCounterJSON>({ nodeId: 'a' });
+    const b = new VersionedStore<string, PNCounterJSON>({ nodeId: 'b' });
+
+    a.increment('hits', 5);
+    b.increment('hits', 2);
+    b.increment('hits', -1);
+    a.merge('hits', b.getVersions('hits'));
+
+    expect(a.get('hits')?.values).toHaveLength(2);
+    expect(a.increment('hits')).toBe(7);
+    expect(a.get('hits')?.values).toHaveLength(1);
+  });
+});
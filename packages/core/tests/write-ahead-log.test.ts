@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LRUCache } from '../src/core/lru-cache';
+import { WriteAheadLog, WriteAheadLogOptions } from '../src/persistence/write-ahead-log';
+
+describe('WriteAheadLog', () => {
+  let directory: string;
+  let logs: WriteAheadLog<string, unknown>[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'wal-'));
+    logs = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(logs.map((log) => log.close()));
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Open a fresh cache on the directory, as a restarted process would
+   */
+  async function restart<V>(
+    options: Partial<WriteAheadLogOptions<V>> = {},
+    maxItems = 100,
+  ): Promise<{ cache: LRUCache<string, V>; log: WriteAheadLog<string, V>; replayed: number }> {
+    const cache = new LRUCache<string, V>({ maxItems });
+    const log = new WriteAheadLog<string, V>(cache, { directory, fsync: 'always', ...options });
+    logs.push(log as WriteAheadLog<string, unknown>);
+    const replayed = await log.open();
+    return { cache, log, replayed };
+  }
+
+  it('should reject invalid options', () => {
+    const cache = new LRUCache<string, string>({ maxItems: 1 });
+
+    expect(() => new WriteAheadLog(cache, { directory, fsyncIntervalMs: 0 })).toThrow();
+    expect(() => new WriteAheadLog(cache, { directory, compactAfterRecords: 0 })).toThrow();
+  });
+
+  it('should replay sets and deletes after a crash', async () => {
+    const { cache } = await restart<string>();
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.set('a', '3');
+    cache.delete('b');
+
+    // No close(): the records must already be on disk
+    const { cache: restored, replayed } = await restart<string>();
+
+    expect(replayed).toBe(4);
+    expect([...restored.entries()]).toEqual([['a', '3']]);
+  });
+
+  it('should preserve TTLs and skip entries that expired while down', async () => {
+    const { cache } = await restart<string>();
+    cache.set('short', 'v', { ttlMs: 1 });
+    cache.set('long', 'v', { ttlMs: 60_000 });
+    cache.set('forever', 'v');
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const { cache: restored } = await restart<string>();
+
+    expect(restored.has('short')).toBe(false);
+    expect(restored.getRemainingTtl('long')).toBeGreaterThan(50_000);
+    expect(restored.getRemainingTtl('forever')).toBe(Infinity);
+  });
+
+  it('should preserve the stale window of entries', async () => {
+    const { cache } = await restart<string>();
+    cache.set('a', 'v', { ttlMs: 1, staleWhileRevalidateMs: 60_000 });
+    cache.set('b', 'v', { ttlMs: 60_000 });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const { cache: restored } = await restart<string>();
+
+    expect(restored.isStale('a')).toBe(true);
+    expect(restored.getExpiry('a')).toEqual(cache.getExpiry('a'));
+    expect(restored.getExpiry('b')).toEqual(cache.getExpiry('b'));
+  });
+
+  it('should record evictions and clears', async () => {
+    const { cache } = await restart<number>({}, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    const { cache: restored } = await restart<number>({}, 2);
+    expect([...restored.keys()].sort()).toEqual(['a', 'c']);
+
+    restored.clear();
+    const { cache: cleared } = await restart<number>({}, 2);
+    expect(cleared.size).toBe(0);
+  });
+
+  it('should ignore a record torn by a crash mid-append', async () => {
+    const { cache } = await restart<string>();
+    cache.set('a', '1');
+    appendFileSync(join(directory, 'wal-0.log'), '{"op":"set","key":"b","val');
+
+    const { cache: restored } = await restart<string>();
+
+    expect([...restored.entries()]).toEqual([['a', '1']]);
+  });
+
+  it('should keep appending after a torn record across restarts', async () => {
+    const { cache } = await restart<string>();
+    cache.set('a', '1');
+    appendFileSync(join(directory, 'wal-0.log'), '{"op":"set","key":"b","val');
+
+    const { cache: reopened, log } = await restart<string>();
+    reopened.set('c', '3');
+    await log.close();
+
+    const { cache: restored, replayed } = await restart<string>();
+
+    expect(replayed).toBe(2);
+    expect([...restored.entries()]).toEqual([
+      ['c', '3'],
+      ['a', '1'],
+    ]);
+  });
+
+  it('should compact the log into a snapshot', async () => {
+    const { cache, log } = await restart<string>();
+    for (let i = 0; i < 10; i++) cache.set(`k${i}`, 'old');
+    cache.set('k0', 'new');
+    cache.delete('k1');
+
+    expect(log.pendingRecords).toBe(12);
+    await log.compact();
+    cache.set('after', 'v');
+
+    expect(log.pendingRecords).toBe(1);
+    expect(readdirSync(directory).sort()).toEqual(['snapshot-1.jsonl', 'wal-1.log']);
+    expect(readFileSync(join(directory, 'wal-1.log'), 'utf8').trim().split('\n')).toHaveLength(1);
+
+    const { cache: restored, replayed } = await restart<string>();
+    expect(replayed).toBe(10);
+    expect([...restored.entries()]).toEqual([...cache.entries()]);
+  });
+
+  it('should compact automatically after the configured number of records', async () => {
+    const { cache, log } = await restart<number>({ compactAfterRecords: 5 });
+    for (let i = 0; i < 5; i++) cache.set(`k${i}`, i);
+
+    expect(log.pendingRecords).toBe(0);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(readdirSync(directory)).toContain('snapshot-1.jsonl');
+  });
+
+  it('should recover from a crash during compaction', async () => {
+    const { cache } = await restart<string>();
+    cache.set('a', '1');
+    cache.set('b', '2');
+
+    // The new log was started but the snapshot never finished
+    writeFileSync(join(directory, 'wal-1.log'), '{"op":"set","key":"a","value":"3"}\n');
+    writeFileSync(join(directory, 'snapshot-1.jsonl.tmp'), '{"version":1}\n{"key":');
+
+    const { cache: restored, log } = await restart<string>();
+
+    expect([...restored.entries()].sort()).toEqual([
+      ['a', '3'],
+      ['b', '2'],
+    ]);
+    expect(readdirSync(directory).sort()).toEqual(['wal-0.log', 'wal-1.log']);
+
+    restored.set('c', '4');
+    await log.compact();
+    const { cache: compacted } = await restart<string>();
+    expect(compacted.size).toBe(3);
+  });
+
+  it('should convert values with custom serializers', async () => {
+    const options = {
+      serialize: (date: Date) => date.getTime(),
+      deserialize: (data: unknown) => new Date(data as number),
+    };
+    const { cache, log } = await restart<Date>(options);
+    cache.set('logged', new Date(1000));
+    await log.compact();
+    cache.set('after', new Date(2000));
+
+    const { cache: restored } = await restart<Date>(options);
+
+    expect(restored.get('logged')).toEqual(new Date(1000));
+    expect(restored.get('after')).toEqual(new Date(2000));
+  });
+
+  it('should not send replayed changes to the cache writer', async () => {
+    const { cache } = await restart<number>();
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.delete('a');
+
+    const calls: unknown[][] = [];
+    const restored = new LRUCache<string, number>({
+      maxItems: 100,
+      writer: {
+        write: async (key, value) => void calls.push(['w', key, value]),
+        delete: async (key) => void calls.push(['d', key]),
+      },
+    });
+    const log = new WriteAheadLog<string, number>(restored, { directory });
+    logs.push(log as WriteAheadLog<string, unknown>);
+
+    expect(await log.open()).toBe(3);
+    await restored.flush();
+
+    expect([...restored.entries()]).toEqual([['b', 2]]);
+    expect(calls).toEqual([]);
+    expect(restored.stats()).toMatchObject({ sets: 1, overwrites: 0 });
+  });
+
+  it('should stop logging once closed', async () => {
+    const { cache, log } = await restart<string>({ fsync: 'interval' });
+    cache.set('a', '1');
+    await log.close();
+    cache.set('b', '2');
+
+    const { cache: restored } = await restart<string>();
+    expect([...restored.keys()]).toEqual(['a']);
+  });
+});